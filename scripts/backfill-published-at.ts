@@ -0,0 +1,19 @@
+/**
+ * Adds `publishedAt` to items stored before it existed, so the API, outgoing
+ * feeds and digests can find them. Safe to run more than once.
+ *
+ *   npm run backfill:published-at
+ */
+import 'dotenv/config';
+import { backfillPublishedAt } from '@/lib/item-query';
+
+backfillPublishedAt()
+  .then(count => {
+    console.log(`Added publishedAt to ${count} items.`);
+    // The Firestore client keeps its connection open, so exit explicitly.
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
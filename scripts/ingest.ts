@@ -0,0 +1,58 @@
+/**
+ * Runs feed ingestion from the command line, for cron jobs and local development.
+ *
+ *   npm run ingest               # ingest the feeds that are due and exit
+ *   npm run ingest -- --force    # ingest every enabled feed, ignoring poll intervals
+ *   npm run ingest -- --every 15 # check for due feeds every 15 minutes until stopped
+ */
+import 'dotenv/config';
+import { runIngestion } from '@/lib/ingest';
+
+const force = process.argv.includes('--force');
+
+async function ingestOnce(): Promise<boolean> {
+  const result = await runIngestion({ force });
+  for (const feed of result.feeds) {
+    const detail = feed.error ?? `${feed.itemCount} items, ${feed.newItemCount} new`;
+    console.log(`[${feed.status}] ${feed.url} (${detail})`);
+  }
+  if (result.purgedItemCount > 0) {
+    console.log(`Deleted ${result.purgedItemCount} items older than the retention period.`);
+  }
+  for (const digest of result.digests) {
+    console.log(`[digest ${digest.status}] ${digest.period}${digest.error ? ` (${digest.error})` : ''}`);
+  }
+  for (const notification of result.notifications) {
+    console.log(`[chat] ${notification.name}: ${notification.messageCount} messages${notification.error ? ` (${notification.error})` : ''}`);
+  }
+  for (const webhook of result.webhooks) {
+    console.log(`[webhook] ${webhook.name}: ${webhook.succeeded} delivered, ${webhook.failed} failed`);
+  }
+  console.log(`Ingested ${result.feeds.length} feeds between ${result.startedAt} and ${result.finishedAt}.`);
+  return result.feeds.every(feed => feed.status !== 'failed');
+}
+
+async function main() {
+  const everyIndex = process.argv.indexOf('--every');
+  const intervalMinutes = everyIndex === -1 ? 0 : Number(process.argv[everyIndex + 1]);
+
+  if (!intervalMinutes) {
+    const ok = await ingestOnce();
+    // The Firestore client keeps its connection open, so exit explicitly.
+    process.exit(ok ? 0 : 1);
+  }
+
+  while (true) {
+    try {
+      await ingestOnce();
+    } catch (error) {
+      console.error('Ingestion run failed:', error);
+    }
+    await new Promise(resolve => setTimeout(resolve, intervalMinutes * 60_000));
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,28 @@
+/**
+ * Sends the weekly email from the command line, for cron jobs and for testing
+ * against a local SMTP sink.
+ *
+ *   npm run newsletter             # email subscribers who have not had this week's email
+ *   npm run newsletter -- --force  # email every subscriber again
+ */
+import 'dotenv/config';
+import { sendWeeklyNewsletter } from '@/lib/newsletter';
+
+async function main() {
+  const result = await sendWeeklyNewsletter({ force: process.argv.includes('--force') });
+  if (result.error) {
+    console.error(result.error);
+    process.exit(1);
+  }
+  for (const recipient of result.recipients) {
+    console.log(`[${recipient.status}] ${recipient.email}${recipient.reason ? ` (${recipient.reason})` : ''}`);
+  }
+  console.log(`Processed ${result.recipients.length} subscribers between ${result.startedAt} and ${result.finishedAt}.`);
+  // The Firestore client keeps its connection open, so exit explicitly.
+  process.exit(result.recipients.every(recipient => recipient.status !== 'failed') ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
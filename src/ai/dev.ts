@@ -1,2 +1,3 @@
 // Flows will be imported for their side effects in this file.
 import './flows/summarize-release-notes-flow';
+import './flows/generate-weekly-digest-flow';
@@ -0,0 +1,81 @@
+'use server';
+/**
+ * @fileOverview A flow to write a narrative digest of a week's release notes.
+ *
+ * - generateWeeklyDigest - A function that takes a week's summarized items and returns a digest grouped by product.
+ * - GenerateWeeklyDigestInput - The input type for the generateWeeklyDigest function.
+ * - GenerateWeeklyDigestOutput - The return type for the generateWeeklyDigest function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {summarizeQueue} from '@/lib/work-queue';
+
+const GenerateWeeklyDigestInputSchema = z.object({
+  periodLabel: z.string().describe('A human-readable description of the week, e.g. "Oct 13 – Oct 19, 2026".'),
+  items: z.array(z.object({
+    product: z.string().describe('The product or feed the release note belongs to.'),
+    title: z.string(),
+    publishedAt: z.string(),
+    summary: z.array(z.string()).describe('Key points from the release note, each prefixed with a type such as [FEATURE] or [FIXED].'),
+  })),
+});
+export type GenerateWeeklyDigestInput = z.infer<typeof GenerateWeeklyDigestInputSchema>;
+
+const GenerateWeeklyDigestOutputSchema = z.object({
+  overview: z.string().describe('Two or three sentences describing the most important changes of the week.'),
+  products: z.array(z.object({
+    product: z.string(),
+    headlines: z.array(z.string()).describe('The most significant new features or changes.'),
+    breakingChanges: z.array(z.string()).describe('Changes that may require action: removals, deprecations, incompatible behavior changes.'),
+    notableFixes: z.array(z.string()).describe('Bug fixes worth knowing about.'),
+  })),
+});
+export type GenerateWeeklyDigestOutput = z.infer<typeof GenerateWeeklyDigestOutputSchema>;
+
+export async function generateWeeklyDigest(input: GenerateWeeklyDigestInput): Promise<GenerateWeeklyDigestOutput> {
+  return generateWeeklyDigestFlow(input);
+}
+
+// Digests are regenerated when the prompt changes; bump DIGEST_PROMPT_VERSION in src/lib/digest.ts when editing this prompt.
+const prompt = ai.definePrompt({
+  name: 'generateWeeklyDigestPrompt',
+  input: {schema: GenerateWeeklyDigestInputSchema},
+  output: {schema: GenerateWeeklyDigestOutputSchema},
+  prompt: `You are writing a short weekly digest of product release notes for engineers.
+
+Using only the release notes below, write:
+1. An overview of two or three sentences describing the most important changes of the week.
+2. For each product that has noteworthy changes, group its changes into:
+   - headlines: the most significant new features or changes,
+   - breakingChanges: anything that may require action, such as removals, deprecations or incompatible behavior changes,
+   - notableFixes: bug fixes worth knowing about.
+   Write each entry as one concise sentence. Leave a list empty rather than padding it, and skip products with nothing noteworthy.
+
+Do not invent changes that are not in the release notes.
+
+Release notes for {{periodLabel}}:
+{{#each items}}
+- {{product}}: {{title}} ({{publishedAt}})
+{{#each summary}}
+  - {{this}}
+{{/each}}
+{{/each}}
+`,
+});
+
+const generateWeeklyDigestFlow = ai.defineFlow(
+  {
+    name: 'generateWeeklyDigestFlow',
+    inputSchema: GenerateWeeklyDigestInputSchema,
+    outputSchema: GenerateWeeklyDigestOutputSchema,
+  },
+  async input => {
+    // Shares the summarizer's queue so digests count against the same model rate limit.
+    const { output } = await summarizeQueue.run(() => prompt(input));
+    if (!output) {
+      throw new Error('The model did not return a digest.');
+    }
+    return output;
+  }
+);
@@ -9,25 +9,31 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {summarizeQueue} from '@/lib/work-queue';
 
 const SummarizeReleaseNoteInputSchema = z.object({
   htmlContent: z.string().describe('The HTML content of a single release note item.'),
 });
 export type SummarizeReleaseNoteInput = z.infer<typeof SummarizeReleaseNoteInputSchema>;
 
-const SummarizeReleaseNoteOutputSchema = z.object({
+const PromptOutputSchema = z.object({
   summary: z.array(z.string()).describe('A list of key points from the release note.'),
 });
+
+const SummarizeReleaseNoteOutputSchema = PromptOutputSchema.extend({
+  fallback: z.boolean().describe('True when the model failed and the summary is the truncated text instead.'),
+});
 export type SummarizeReleaseNoteOutput = z.infer<typeof SummarizeReleaseNoteOutputSchema>;
 
 export async function summarizeReleaseNote(input: SummarizeReleaseNoteInput): Promise<SummarizeReleaseNoteOutput> {
   return summarizeReleaseNoteFlow(input);
 }
 
+// Summaries are cached by prompt version; bump SUMMARY_PROMPT_VERSION in src/lib/summary-cache.ts when editing this prompt.
 const prompt = ai.definePrompt({
   name: 'summarizeReleaseNotePrompt',
   input: {schema: SummarizeReleaseNoteInputSchema},
-  output: {schema: SummarizeReleaseNoteOutputSchema},
+  output: {schema: PromptOutputSchema},
   prompt: `You are an expert at parsing HTML release notes to create a bulleted summary.
 From the provided HTML content, find every \`<h3>\` tag.
 For each \`<h3>\` tag you find:
@@ -66,14 +72,15 @@ const summarizeReleaseNoteFlow = ai.defineFlow(
     const strippedText = input.htmlContent.replace(/<[^>]*>?/gm, '').trim();
     // If content is very short or doesn't seem to contain HTML, just return it as is.
     if (strippedText.length < 50) {
-      return { summary: [strippedText] };
+      return { summary: [strippedText], fallback: false };
     }
 
     try {
-      const { output } = await prompt(input);
+      // Queued so concurrent fetches share one rate limit and 429/5xx responses are retried.
+      const { output } = await summarizeQueue.run(() => prompt(input));
       // Ensure output and summary are valid before returning
       if (output?.summary && output.summary.length > 0) {
-        return output;
+        return { summary: output.summary, fallback: false };
       }
     } catch (e) {
       console.error("Error calling summarize prompt, falling back to stripped text.", e);
@@ -81,6 +88,6 @@ const summarizeReleaseNoteFlow = ai.defineFlow(
 
     // Fallback to a simple summary if the prompt fails or returns empty/invalid data
     const fallbackSummary = strippedText.length > 250 ? strippedText.substring(0, 250) + '...' : strippedText;
-    return { summary: [fallbackSummary] };
+    return { summary: [fallbackSummary], fallback: true };
   }
 );
@@ -0,0 +1,231 @@
+'use client';
+
+import { useState, useEffect, type FormEvent } from 'react';
+import { createApiToken, getApiTokens, getEmailSubscription, revokeApiToken, updateEmailSubscription, type ApiToken, type EmailSubscription } from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Trash2, KeyRound, Copy } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import Link from 'next/link';
+import { useAuth } from '@/hooks/use-auth';
+import { useRouter } from 'next/navigation';
+
+export default function AccountPage() {
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [newTokenName, setNewTokenName] = useState('');
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [emailSubscription, setEmailSubscription] = useState<EmailSubscription | null>(null);
+  const [isEmailAvailable, setIsEmailAvailable] = useState(false);
+  const [isSavingEmail, setIsSavingEmail] = useState(false);
+  const { toast } = useToast();
+  const auth = useAuth();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!auth.loading && !auth.user) {
+      router.push('/login');
+    }
+  }, [auth.loading, auth.user, router]);
+
+  useEffect(() => {
+    async function loadTokens() {
+      setIsLoading(true);
+      const idToken = await auth.getIdToken() ?? '';
+      const [result, emailResult] = await Promise.all([getApiTokens(idToken), getEmailSubscription(idToken)]);
+      if (result.error || emailResult.error) {
+        toast({ variant: "destructive", title: "Error", description: result.error ?? emailResult.error });
+      }
+      setTokens(result.data ?? []);
+      setEmailSubscription(emailResult.data ?? null);
+      setIsEmailAvailable(emailResult.available ?? false);
+      setIsLoading(false);
+    }
+    if (!auth.loading && auth.user) {
+      loadTokens();
+    }
+  }, [auth.loading, auth.user, auth.getIdToken, toast]);
+
+  const handleCreateToken = async (e: FormEvent) => {
+    e.preventDefault();
+    if (isSaving || !newTokenName) return;
+    setIsSaving(true);
+    const result = await createApiToken(newTokenName, await auth.getIdToken() ?? '');
+    if (result.success && result.token && result.apiToken) {
+      setTokens([result.apiToken, ...tokens]);
+      setCreatedToken(result.token);
+      setNewTokenName('');
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: result.error || "Failed to create the token.",
+      });
+    }
+    setIsSaving(false);
+  };
+
+  const handleRevokeToken = async (token: ApiToken) => {
+    if (isSaving) return;
+    setIsSaving(true);
+    const result = await revokeApiToken(token.id, await auth.getIdToken() ?? '');
+    if (result.success) {
+      setTokens(tokens.filter(candidate => candidate.id !== token.id));
+      toast({
+        title: "Success",
+        description: `Token "${token.name}" revoked.`,
+      });
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: result.error || "Failed to revoke the token.",
+      });
+    }
+    setIsSaving(false);
+  };
+
+  const handleEmailToggle = async (enabled: boolean) => {
+    if (isSavingEmail) return;
+    setIsSavingEmail(true);
+    const result = await updateEmailSubscription(enabled, await auth.getIdToken() ?? '');
+    if (result.success && result.subscription) {
+      setEmailSubscription(result.subscription);
+      toast({
+        title: "Success",
+        description: enabled ? `The weekly digest will be sent to ${result.subscription.email}.` : "You will no longer receive the weekly digest.",
+      });
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: result.error || "Failed to save your email settings.",
+      });
+    }
+    setIsSavingEmail(false);
+  };
+
+  const handleCopyToken = async () => {
+    if (!createdToken) return;
+    await navigator.clipboard.writeText(createdToken);
+    toast({ title: "Copied", description: "The token is on your clipboard." });
+  };
+
+  if (auth.loading || !auth.user) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-background">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background text-foreground font-body">
+      <main className="container mx-auto px-4 py-8 md:py-12">
+        <header className="mb-12">
+           <h1 className="text-4xl font-bold font-headline text-primary">Your Account</h1>
+           <p className="mt-2 text-lg text-muted-foreground">Signed in as {auth.user.email}.</p>
+           <Button asChild variant="link" className="p-0 mt-4">
+            <Link href="/">Back to Home</Link>
+           </Button>
+        </header>
+
+        <div className="max-w-2xl mx-auto space-y-8">
+            <section>
+                <h2 className="text-2xl font-headline font-bold text-primary mb-4">Email</h2>
+                <div className="flex items-center justify-between gap-4 p-4 bg-card rounded-md border border-primary/20">
+                    <div className="space-y-1">
+                        <Label htmlFor="weekly-email">Email me the weekly digest</Label>
+                        <p className="text-sm text-muted-foreground">
+                            {isEmailAvailable
+                                ? `Every week's release notes and summary, sent to ${auth.user.email}.`
+                                : "Email delivery has not been set up for this site yet."}
+                        </p>
+                    </div>
+                    <Switch
+                        id="weekly-email"
+                        checked={emailSubscription?.enabled ?? false}
+                        onCheckedChange={handleEmailToggle}
+                        disabled={isLoading || isSavingEmail || !isEmailAvailable || !auth.user.email}
+                    />
+                </div>
+            </section>
+
+            <section>
+                <h2 className="text-2xl font-headline font-bold text-primary mb-4">API Tokens</h2>
+                <p className="text-sm text-muted-foreground mb-4">
+                    Tokens let other tools read release notes from <code>/api/v1/items</code> and <code>/api/v1/feeds</code>.
+                    Send one as an <code>Authorization: Bearer</code> header.
+                </p>
+                <form onSubmit={handleCreateToken} className="flex gap-2">
+                    <Input
+                        placeholder="What will use this token?"
+                        value={newTokenName}
+                        onChange={(e) => setNewTokenName(e.target.value)}
+                        disabled={isSaving}
+                        maxLength={100}
+                        className="flex-grow bg-card/80 border-primary/30"
+                    />
+                    <Button type="submit" className="bg-accent hover:bg-accent/90" disabled={isSaving || !newTokenName}>
+                        {isSaving ? <Loader2 className="animate-spin" /> : <KeyRound />}
+                        <span className="ml-2 hidden sm:inline">Create Token</span>
+                    </Button>
+                </form>
+                {createdToken && (
+                    <Alert className="mt-4">
+                        <KeyRound className="h-4 w-4" />
+                        <AlertTitle>Copy your new token now</AlertTitle>
+                        <AlertDescription className="space-y-2">
+                            <p>You will not be able to see it again.</p>
+                            <div className="flex gap-2">
+                                <Input readOnly value={createdToken} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+                                <Button variant="outline" size="icon" onClick={handleCopyToken} aria-label="Copy the token">
+                                    <Copy className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        </AlertDescription>
+                    </Alert>
+                )}
+                <div className="mt-4">
+                    {isLoading ? (
+                        <div className="flex justify-center items-center p-8">
+                            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                        </div>
+                    ) : tokens.length === 0 ? (
+                        <p className="text-muted-foreground text-center p-4 bg-card/50 rounded-md">You have no API tokens.</p>
+                    ) : (
+                        <ul className="space-y-2">
+                            {tokens.map(token => (
+                                <li key={token.id} className="flex items-center justify-between gap-2 p-3 bg-card rounded-md border border-primary/20">
+                                    <div className="min-w-0">
+                                        <p className="font-medium text-foreground truncate">{token.name}</p>
+                                        <p className="text-xs text-muted-foreground truncate">
+                                            <code>{token.prefix}…</code> · created {formatDistanceToNow(new Date(token.createdAt), { addSuffix: true })}
+                                            {' · '}{token.lastUsedAt ? `last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}` : 'never used'}
+                                        </p>
+                                    </div>
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() => handleRevokeToken(token)}
+                                        disabled={isSaving}
+                                        aria-label={`Revoke ${token.name}`}
+                                    >
+                                        <Trash2 className="h-4 w-4 text-destructive" />
+                                    </Button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </section>
+        </div>
+      </main>
+    </div>
+  );
+}
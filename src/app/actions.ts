@@ -1,205 +1,865 @@
 'use server';
 
 import { z } from 'zod';
-import { summarizeReleaseNote } from '@/ai/flows/summarize-release-notes-flow';
-import { db } from '@/lib/firebase';
-import { doc, getDoc, setDoc, collection, getDocs, writeBatch } from 'firebase/firestore';
+import { adminDb as db } from '@/lib/firebase-admin';
+import { fetchFeed } from '@/lib/ingest';
+import { summarizeWithCache } from '@/lib/summary-cache';
+import { isSafeLink, sanitizeFeedHtml } from '@/lib/html-sanitizer';
+import { AuthorizationError, requireAdmin, verifyUser, type VerifiedUser } from '@/lib/server-auth';
+import { createFeed, createFeeds, deleteFeed as deleteFeedDoc, getFeed, listFeeds, newFeed, toDocId, updateFeedSettings } from '@/lib/feed-store';
+import { ensureUserDocument, getUser, listUsers, removeUser as removeUserAccount, setUserRole } from '@/lib/user-store';
+import { createInvite, deleteInvite, emailDomain, getAccessSettings as readAccessSettings, listInvites, normalizeEmail, updateAllowedDomains } from '@/lib/access-store';
+import { listAuditLog } from '@/lib/audit-log';
+import { listWeeklyDigests } from '@/lib/digest';
+import { listItemVersions } from '@/lib/item-revisions';
+import { queryItems } from '@/lib/item-query';
+import { MAX_RETENTION_DAYS, getIngestionSettings as readIngestionSettings, updateIngestionSettings } from '@/lib/ingestion-settings';
+import { getEmailSubscription as readEmailSubscription, setEmailSubscription, unsubscribeByToken } from '@/lib/email-subscriptions';
+import { listEmailLog } from '@/lib/newsletter';
+import { isMailerConfigured } from '@/lib/mailer';
+import { createChatWebhook as createStoredChatWebhook, deleteChatWebhook as deleteStoredChatWebhook, listChatWebhooks, sendTestChatMessage as sendStoredTestChatMessage, updateChatWebhook } from '@/lib/chat-webhooks';
+import { createOutgoingWebhook as createStoredOutgoingWebhook, deleteOutgoingWebhook as deleteStoredOutgoingWebhook, listOutgoingWebhooks, listWebhookDeliveries, redeliverWebhookDelivery, rotateWebhookSecret, updateOutgoingWebhook } from '@/lib/outgoing-webhooks';
+import { getOrCreateFeedToken, rotateFeedToken } from '@/lib/feed-tokens';
+import { createApiToken as createStoredApiToken, listApiTokens, revokeApiToken as revokeStoredApiToken } from '@/lib/api-tokens';
+import type { AccessSettings, ApiToken, AppUser, AuditLogEntry, ChatWebhook, ChatWebhookSettings, DigestPeriod, DiscoveredFeed, EmailLogEntry, EmailSubscription, Feed, FeedPreview, FeedSettings, IngestionSettings, Invite, ItemSource, ItemVersion, OutgoingWebhook, OutgoingWebhookSettings, RssItem, UserRole, WebhookDelivery, WebhookEvent, WeeklyDigest } from '@/lib/types';
 
-export interface RssItem {
-  title: string;
-  link: string;
-  description: string;
-  pubDate: string;
-  summary?: string[];
-}
+export type { AccessSettings, ApiToken, AppUser, AuditLogEntry, ChatWebhook, ChatWebhookSettings, DigestPeriod, DiscoveredFeed, EmailLogEntry, EmailSubscription, Feed, FeedPreview, FeedSettings, IngestionSettings, Invite, ItemSource, ItemVersion, OutgoingWebhook, OutgoingWebhookSettings, RssItem, UserRole, WebhookDelivery, WebhookEvent, WeeklyDigest } from '@/lib/types';
 
 const urlSchema = z.string().url({ message: 'Please enter a valid URL.' });
 
-function decodeHtmlEntities(text: string): string {
-  // This is a basic decoder and might not cover all cases.
-  return text
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>')
-    .replace(/&amp;/g, '&')
-    .replace(/&quot;/g, '"')
-    .replace(/&#039;/g, "'")
-    .replace(/&#39;/g, "'");
+// How many items a feed preview summarizes.
+const PREVIEW_ITEM_COUNT = 3;
+
+const userRoleSchema = z.enum(['admin', 'viewer']);
+
+const apiTokenNameSchema = z.string().trim().min(1, { message: 'Please name the token.' }).max(100, { message: 'The name must be 100 characters or fewer.' });
+
+const emailSchema = z.string().trim().email({ message: 'Please enter a valid email address.' });
+
+const itemRangeSchema = z.object({
+  from: z.string().datetime({ message: 'Please choose a valid range.' }),
+  to: z.string().datetime({ message: 'Please choose a valid range.' }),
+});
+
+const ingestionSettingsSchema = z.object({
+  retentionDays: z.number().int({ message: 'Retention must be a whole number of days.' }).min(1, { message: 'Items must be kept for at least a day.' }).max(MAX_RETENTION_DAYS, { message: `Items can be kept for at most ${MAX_RETENTION_DAYS} days.` }),
+});
+
+// A bare hostname such as "example.com"; no scheme, path, port or "@".
+const domainSchema = z.string().trim().toLowerCase().regex(/^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/, { message: 'Please enter domains like example.com.' });
+
+const feedSettingsSchema = z.object({
+  name: z.string().trim().max(100, { message: 'The name must be 100 characters or fewer.' }),
+  category: z.string().trim().max(50, { message: 'The category must be 50 characters or fewer.' }),
+  enabled: z.boolean(),
+  pollIntervalMinutes: z.number().int().min(5, { message: 'Feeds can be polled at most every 5 minutes.' }).max(10080, { message: 'Feeds must be polled at least once a week.' }),
+});
+
+const chatWebhookSettingsSchema = z.object({
+  name: z.string().trim().min(1, { message: 'Please name the webhook.' }).max(100, { message: 'The name must be 100 characters or fewer.' }),
+  url: urlSchema.refine(url => /^https?:\/\//i.test(url), { message: 'Webhook URLs must start with http:// or https://.' }),
+  feedIds: z.array(z.string()).max(500),
+  categories: z.array(z.string().trim().min(1)).max(100),
+  template: z.string().trim().min(1, { message: 'Please enter a message template.' }).max(2000, { message: 'The template must be 2000 characters or fewer.' }),
+  enabled: z.boolean(),
+});
+
+const outgoingWebhookSettingsSchema = z.object({
+  name: z.string().trim().min(1, { message: 'Please name the webhook.' }).max(100, { message: 'The name must be 100 characters or fewer.' }),
+  url: urlSchema.refine(url => /^https?:\/\//i.test(url), { message: 'Webhook URLs must start with http:// or https://.' }),
+  events: z.array(z.enum(['item.created', 'item.updated', 'feed.failed'])).min(1, { message: 'Please choose at least one event.' }),
+  enabled: z.boolean(),
+});
+
+// Turns a failed authorization check into a message the client can show.
+function authorizationErrorMessage(error: unknown): string {
+  if (error instanceof AuthorizationError) {
+    return error.message;
+  }
+  console.error("Error authorizing request:", error);
+  return "Could not verify your account. Please try again.";
 }
 
-export async function fetchRssFeed(url: string): Promise<{ data?: RssItem[]; error?: string }> {
+export async function getFeeds(idToken: string): Promise<Feed[]> {
+  try {
+    await verifyUser(idToken);
+    const feeds = await listFeeds();
+    return feeds.sort((a, b) => (a.name || a.title || a.url).localeCompare(b.name || b.title || b.url));
+  } catch (error) {
+    console.error("Error fetching feeds from Firestore:", error);
+    return [];
+  }
+}
+
+export async function previewFeed(url: string, idToken: string): Promise<{ data?: FeedPreview; error?: string; discovered?: DiscoveredFeed[] }> {
+  try {
+    await requireAdmin(idToken);
+  } catch (error) {
+    return { error: authorizationErrorMessage(error) };
+  }
+
+  const result = await fetchFeed(url);
+  if (result.error || !result.feed) {
+    return { error: result.error ?? 'The feed could not be read.', discovered: result.discovered };
+  }
+
+  const items = (result.data ?? [])
+    .sort((a, b) => new Date(b.pubDate).getTime() - new Date(a.pubDate).getTime())
+    .slice(0, PREVIEW_ITEM_COUNT);
+  await Promise.all(items.map(async (item) => {
+    item.summary = await summarizeWithCache(item.description);
+  }));
+
+  return {
+    data: {
+      url,
+      format: result.feed.format,
+      title: result.feed.title,
+      siteUrl: result.feed.link,
+      itemCount: result.data?.length ?? 0,
+      items,
+    },
+  };
+}
+
+export async function addFeed(url: string, idToken: string): Promise<{success: boolean, error?: string, feed?: Feed}> {
+  if (!db) {
+    return { success: false, error: "Firestore is not configured. Please add your Firebase credentials to the .env file." };
+  }
+  let user: VerifiedUser;
+  try {
+    user = await requireAdmin(idToken);
+  } catch (error) {
+    return { success: false, error: authorizationErrorMessage(error) };
+  }
   const validation = urlSchema.safeParse(url);
+  if (!validation.success) {
+    return { success: false, error: validation.error.errors[0].message };
+  }
+  try {
+    if (await getFeed(toDocId(url))) {
+      return { success: false, error: "This URL already exists in the list." };
+    }
+    const feed = newFeed(url, user.email ?? user.uid);
+    await createFeed(feed);
+    return { success: true, feed };
+  } catch (error) {
+    console.error("Error adding feed to Firestore:", error);
+    return { success: false, error: "Could not save the feed. Please check your Firestore security rules and Firebase config." };
+  }
+}
+
+export async function importFeeds(
+  entries: { url: string; name?: string; category?: string }[],
+  idToken: string
+): Promise<{success: boolean, error?: string, added?: Feed[], skipped?: number}> {
+  if (!db) {
+    return { success: false, error: "Firestore is not configured. Please add your Firebase credentials to the .env file." };
+  }
+  let user: VerifiedUser;
+  try {
+    user = await requireAdmin(idToken);
+  } catch (error) {
+    return { success: false, error: authorizationErrorMessage(error) };
+  }
+  try {
+    const existingUrls = new Set((await listFeeds()).map(feed => feed.url));
+    const added: Feed[] = [];
+    for (const entry of entries) {
+      if (!urlSchema.safeParse(entry.url).success || existingUrls.has(entry.url)) {
+        continue;
+      }
+      existingUrls.add(entry.url);
+      // Other readers allow longer names than we do, so trim rather than reject them.
+      added.push(newFeed(entry.url, user.email ?? user.uid, {
+        name: (entry.name ?? '').trim().slice(0, 100),
+        category: (entry.category ?? '').trim().slice(0, 50),
+      }));
+    }
+    await createFeeds(added);
+    return { success: true, added, skipped: entries.length - added.length };
+  } catch (error) {
+    console.error("Error importing feeds to Firestore:", error);
+    return { success: false, error: "Could not import the feeds. Please check your Firestore security rules and Firebase config." };
+  }
+}
+
+export async function updateFeed(id: string, settings: FeedSettings, idToken: string): Promise<{success: boolean, error?: string}> {
+  if (!db) {
+    return { success: false, error: "Firestore is not configured. Please add your Firebase credentials to the .env file." };
+  }
+  try {
+    await requireAdmin(idToken);
+  } catch (error) {
+    return { success: false, error: authorizationErrorMessage(error) };
+  }
+  const validation = feedSettingsSchema.safeParse(settings);
+  if (!validation.success) {
+    return { success: false, error: validation.error.errors[0].message };
+  }
+  try {
+    await updateFeedSettings(id, validation.data);
+    return { success: true };
+  } catch (error) {
+    console.error("Error updating feed in Firestore:", error);
+    return { success: false, error: "Could not update the feed. Please check your Firestore security rules and Firebase config." };
+  }
+}
+
+export async function deleteFeed(id: string, idToken: string): Promise<{success: boolean, error?: string}> {
+  if (!db) {
+    return { success: false, error: "Firestore is not configured. Please add your Firebase credentials to the .env file." };
+  }
+  try {
+    await requireAdmin(idToken);
+  } catch (error) {
+    return { success: false, error: authorizationErrorMessage(error) };
+  }
+  try {
+    await deleteFeedDoc(id);
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting feed from Firestore:", error);
+    return { success: false, error: "Could not remove the feed. Please check your Firestore security rules and Firebase config." };
+  }
+}
+
+/** Reads the stored items published in the range, given as ISO-8601 timestamps. */
+export async function getStoredFeedItems(range: { from: string; to: string }, idToken: string): Promise<{ data?: RssItem[]; error?: string }> {
+  if (!db) {
+    // If firestore is not configured, there is nothing stored to show.
+    return { data: [] };
+  }
+  try {
+    await verifyUser(idToken);
+  } catch (error) {
+    return { error: authorizationErrorMessage(error) };
+  }
+  const validation = itemRangeSchema.safeParse(range);
   if (!validation.success) {
     return { error: validation.error.errors[0].message };
   }
+  try {
+    const matches = await queryItems({ from: new Date(validation.data.from), to: new Date(validation.data.to) });
+    // Items stored before ingestion sanitized their HTML may still hold the feed's
+    // original markup, and the client renders descriptions as HTML.
+    const items: RssItem[] = matches
+      .map(({ id, item }) => ({ ...item, id }))
+      .filter(item => isSafeLink(item.link))
+      .map(item => ({ ...item, description: sanitizeFeedHtml(item.description, item.link) }));
+    return { data: items };
+  } catch (error) {
+    console.error("Error fetching stored items from Firestore:", error);
+    return { error: "Could not retrieve stored feed items. Please check your Firestore security rules." };
+  }
+}
+
+export async function getUsers(idToken: string): Promise<{ data?: AppUser[]; error?: string }> {
+  try {
+    await requireAdmin(idToken);
+  } catch (error) {
+    return { error: authorizationErrorMessage(error) };
+  }
+  try {
+    const users = await listUsers();
+    return { data: users.sort((a, b) => (a.email ?? a.uid).localeCompare(b.email ?? b.uid)) };
+  } catch (error) {
+    console.error("Error listing users:", error);
+    return { error: "Could not retrieve the users. Please check your Firebase config." };
+  }
+}
 
+export async function getAuditLog(idToken: string): Promise<{ data?: AuditLogEntry[]; error?: string }> {
   try {
-    const response = await fetch(url, {
-      headers: { 
-        'User-Agent': 'BrewNews/1.0',
-        'Accept': 'application/rss+xml, application/xml, text/xml, application/atom+xml'
-      },
-      next: { revalidate: 3600 }, // Revalidate every hour
-    });
+    await requireAdmin(idToken);
+  } catch (error) {
+    return { error: authorizationErrorMessage(error) };
+  }
+  try {
+    return { data: await listAuditLog() };
+  } catch (error) {
+    console.error("Error reading the audit log from Firestore:", error);
+    return { error: "Could not retrieve the audit log." };
+  }
+}
 
-    if (!response.ok) {
-      return { error: `Failed to fetch feed. Server responded with status: ${response.status}` };
+export async function changeUserRole(uid: string, role: UserRole, idToken: string): Promise<{success: boolean, error?: string}> {
+  if (!db) {
+    return { success: false, error: "Firestore is not configured. Please add your Firebase credentials to the .env file." };
+  }
+  let actor: VerifiedUser;
+  try {
+    actor = await requireAdmin(idToken);
+  } catch (error) {
+    return { success: false, error: authorizationErrorMessage(error) };
+  }
+  const validation = userRoleSchema.safeParse(role);
+  if (!validation.success) {
+    return { success: false, error: "Please choose a valid role." };
+  }
+  // Stops the last admin from locking everyone out by demoting themselves.
+  if (uid === actor.uid) {
+    return { success: false, error: "You cannot change your own role." };
+  }
+  try {
+    const user = await getUser(uid);
+    if (!user) {
+      return { success: false, error: "This user no longer exists." };
     }
+    if (user.role === validation.data) {
+      return { success: true };
+    }
+    await setUserRole(user, validation.data, actor);
+    return { success: true };
+  } catch (error) {
+    console.error("Error changing user role:", error);
+    return { success: false, error: "Could not change the user's role. Please check your Firebase config." };
+  }
+}
 
-    const xmlText = await response.text();
-    
-    const isAtom = xmlText.includes('<feed');
+export async function removeUser(uid: string, idToken: string): Promise<{success: boolean, error?: string}> {
+  if (!db) {
+    return { success: false, error: "Firestore is not configured. Please add your Firebase credentials to the .env file." };
+  }
+  let actor: VerifiedUser;
+  try {
+    actor = await requireAdmin(idToken);
+  } catch (error) {
+    return { success: false, error: authorizationErrorMessage(error) };
+  }
+  if (uid === actor.uid) {
+    return { success: false, error: "You cannot remove your own account." };
+  }
+  try {
+    const user = await getUser(uid);
+    if (!user) {
+      return { success: false, error: "This user no longer exists." };
+    }
+    await removeUserAccount(user, actor);
+    return { success: true };
+  } catch (error) {
+    console.error("Error removing user:", error);
+    return { success: false, error: "Could not remove the user. Please check your Firebase config." };
+  }
+}
 
-    const itemBlocks = isAtom
-      ? xmlText.match(/<entry>([\s\S]*?)<\/entry>/g)
-      : xmlText.match(/<item>([\s\S]*?)<\/item>/g);
+export async function getWeeklyDigests(idToken: string): Promise<{ data?: Partial<Record<DigestPeriod, WeeklyDigest>>; error?: string }> {
+  try {
+    await verifyUser(idToken);
+  } catch (error) {
+    return { error: authorizationErrorMessage(error) };
+  }
+  try {
+    const digests = await listWeeklyDigests();
+    return { data: Object.fromEntries(digests.map(digest => [digest.period, digest])) };
+  } catch (error) {
+    console.error("Error fetching digests from Firestore:", error);
+    return { error: "Could not retrieve the weekly digests." };
+  }
+}
 
-    if (!itemBlocks) {
-      if (!isAtom && !xmlText.includes('<rss')) {
-         return { error: 'The content does not appear to be a valid RSS or Atom feed.' };
-      }
-      return { data: [] };
+/** Returns the versions of an item the feed has edited, oldest first and ending with the current one. */
+export async function getItemVersions(itemId: string, idToken: string): Promise<{ data?: ItemVersion[]; error?: string }> {
+  if (!db) {
+    return { error: "Firestore is not configured. Please add your Firebase credentials to the .env file." };
+  }
+  try {
+    await verifyUser(idToken);
+  } catch (error) {
+    return { error: authorizationErrorMessage(error) };
+  }
+  try {
+    const versions = await listItemVersions(itemId);
+    if (!versions) {
+      return { error: "This item no longer exists." };
     }
+    return { data: versions };
+  } catch (error) {
+    console.error("Error fetching item revisions from Firestore:", error);
+    return { error: "Could not retrieve the item's revisions." };
+  }
+}
 
-    const items: RssItem[] = itemBlocks
-      .map(block => {
-        const titleMatch = block.match(/<title>([\s\S]*?)<\/title>/);
-        let title = titleMatch ? titleMatch[1].trim() : '';
-        if (title.startsWith('<![CDATA[')) {
-          title = title.slice(9, -3).trim();
-        }
-
-        let link = '#';
-        if (isAtom) {
-          // For Atom, find link with rel="alternate" or the first link
-          const linkMatch = block.match(/<link[^>]*rel="alternate"[^>]*href="([^"]+)"|<link[^>]*href="([^"]+)"/);
-          link = linkMatch ? (linkMatch[1] || linkMatch[2]).trim() : '#';
-        } else {
-          const linkMatch = block.match(/<link>([\s\S]*?)<\/link>/);
-          link = linkMatch ? linkMatch[1].trim() : '#';
-        }
-        
-        const pubDateMatch = isAtom 
-          ? block.match(/<updated>([\s\S]*?)<\/updated>/)
-          : block.match(/<pubDate>([\s\S]*?)<\/pubDate>/);
-        const pubDate = pubDateMatch ? pubDateMatch[1].trim() : new Date().toUTCString();
-
-        const descriptionMatch = isAtom
-          ? block.match(/<content[^>]*>([\s\S]*?)<\/content>/)
-          : block.match(/<description>([\s\S]*?)<\/description>/);
-        let description = descriptionMatch ? descriptionMatch[1].trim() : 'No description available.';
-        if (description.startsWith('<![CDATA[')) {
-          description = description.slice(9, -3).trim();
-        }
-
-        return {
-          title: decodeHtmlEntities(title),
-          link,
-          pubDate,
-          description: decodeHtmlEntities(description),
-        };
-      })
-      .filter(item => item.title && item.link && item.link !== '#');
-
-    const summaryPromises = items.map(async (item) => {
-      const result = await summarizeReleaseNote({ htmlContent: item.description });
-      item.summary = result.summary;
-    });
-
-    await Promise.all(summaryPromises);
+/**
+ * Called after every sign-in. Rejects accounts that are not on an allowed
+ * domain or invited, and creates the user's document on their first visit.
+ */
+export async function registerUser(idToken: string): Promise<{success: boolean, error?: string, role?: UserRole}> {
+  if (!db) {
+    return { success: false, error: "Firestore is not configured. Please add your Firebase credentials to the .env file." };
+  }
+  let user: VerifiedUser;
+  try {
+    user = await verifyUser(idToken);
+  } catch (error) {
+    return { success: false, error: authorizationErrorMessage(error) };
+  }
+  try {
+    await ensureUserDocument(user.uid, user.email);
+    return { success: true, role: user.role };
+  } catch (error) {
+    console.error("Error registering user:", error);
+    return { success: false, error: "Could not set up your account. Please try again." };
+  }
+}
 
-    return { data: items };
-  } catch (err) {
-    console.error('Fetch RSS Error:', err);
-    if (err instanceof TypeError && err.message.includes('fetch failed')) {
-        return { error: 'Network error or invalid domain. Please check the URL and your connection.'};
-    }
-    return { error: 'An unexpected error occurred while processing the feed. It may not be a valid RSS or Atom format.' };
+export async function getAccessSettings(idToken: string): Promise<{ data?: AccessSettings & { invites: Invite[] }; error?: string }> {
+  try {
+    await requireAdmin(idToken);
+  } catch (error) {
+    return { error: authorizationErrorMessage(error) };
+  }
+  try {
+    const [settings, invites] = await Promise.all([readAccessSettings(), listInvites()]);
+    return { data: { ...settings, invites: invites.sort((a, b) => a.email.localeCompare(b.email)) } };
+  } catch (error) {
+    console.error("Error reading access settings from Firestore:", error);
+    return { error: "Could not retrieve the access settings." };
   }
 }
 
-export async function getFeedUrls(): Promise<string[]> {
+export async function getIngestionSettings(idToken: string): Promise<{ data?: IngestionSettings; error?: string }> {
+  try {
+    await requireAdmin(idToken);
+  } catch (error) {
+    return { error: authorizationErrorMessage(error) };
+  }
+  try {
+    return { data: await readIngestionSettings() };
+  } catch (error) {
+    console.error("Error reading ingestion settings from Firestore:", error);
+    return { error: "Could not retrieve the ingestion settings." };
+  }
+}
+
+/** Changes how long ingestion keeps items. Takes effect from the next ingestion run. */
+export async function saveIngestionSettings(settings: IngestionSettings, idToken: string): Promise<{success: boolean, error?: string}> {
   if (!db) {
-    // If Firestore isn't configured, there are no URLs.
-    return [];
+    return { success: false, error: "Firestore is not configured. Please add your Firebase credentials to the .env file." };
+  }
+  try {
+    await requireAdmin(idToken);
+  } catch (error) {
+    return { success: false, error: authorizationErrorMessage(error) };
+  }
+  const validation = ingestionSettingsSchema.safeParse(settings);
+  if (!validation.success) {
+    return { success: false, error: validation.error.errors[0].message };
+  }
+  try {
+    await updateIngestionSettings(validation.data);
+    return { success: true };
+  } catch (error) {
+    console.error("Error saving ingestion settings:", error);
+    return { success: false, error: "Could not save the ingestion settings." };
+  }
+}
+
+export async function saveAllowedDomains(domains: string[], idToken: string): Promise<{success: boolean, error?: string, allowedDomains?: string[]}> {
+  if (!db) {
+    return { success: false, error: "Firestore is not configured. Please add your Firebase credentials to the .env file." };
+  }
+  let actor: VerifiedUser;
+  try {
+    actor = await requireAdmin(idToken);
+  } catch (error) {
+    return { success: false, error: authorizationErrorMessage(error) };
   }
-  const urlsDocRef = doc(db, 'feeds', 'default');
+  const validation = z.array(domainSchema).safeParse(domains.filter(domain => domain.trim() !== ''));
+  if (!validation.success) {
+    return { success: false, error: validation.error.errors[0].message };
+  }
+  const allowedDomains = [...new Set(validation.data)].sort();
   try {
-    const docSnap = await getDoc(urlsDocRef);
-    if (docSnap.exists()) {
-      const data = docSnap.data();
-      // Ensure it returns an array, even if it's empty
-      return Array.isArray(data.urls) ? data.urls : [];
+    await updateAllowedDomains(allowedDomains, actor);
+    return { success: true, allowedDomains };
+  } catch (error) {
+    console.error("Error saving allowed domains:", error);
+    return { success: false, error: "Could not save the allowed domains." };
+  }
+}
+
+export async function inviteUser(email: string, idToken: string): Promise<{success: boolean, error?: string, invite?: Invite}> {
+  if (!db) {
+    return { success: false, error: "Firestore is not configured. Please add your Firebase credentials to the .env file." };
+  }
+  let actor: VerifiedUser;
+  try {
+    actor = await requireAdmin(idToken);
+  } catch (error) {
+    return { success: false, error: authorizationErrorMessage(error) };
+  }
+  const validation = emailSchema.safeParse(email);
+  if (!validation.success) {
+    return { success: false, error: validation.error.errors[0].message };
+  }
+  try {
+    const { allowedDomains } = await readAccessSettings();
+    if (allowedDomains.includes(emailDomain(validation.data))) {
+      return { success: false, error: `Everyone at ${emailDomain(validation.data)} can already sign in.` };
     }
-    // If the document doesn't exist, there are no URLs.
-    return [];
+    if ((await listInvites()).some(invite => invite.email === normalizeEmail(validation.data))) {
+      return { success: false, error: "This address has already been invited." };
+    }
+    const invite = await createInvite(validation.data, actor);
+    return { success: true, invite };
   } catch (error) {
-    console.error("Error fetching URLs from Firestore:", error);
-    // Return empty array on error
-    return [];
+    console.error("Error inviting user:", error);
+    return { success: false, error: "Could not save the invite." };
   }
 }
 
-export async function saveFeedUrls(urls: string[]): Promise<{success: boolean, error?: string}> {
+export async function revokeInvite(email: string, idToken: string): Promise<{success: boolean, error?: string}> {
   if (!db) {
     return { success: false, error: "Firestore is not configured. Please add your Firebase credentials to the .env file." };
   }
-  const urlsDocRef = doc(db, 'feeds', 'default');
+  let actor: VerifiedUser;
+  try {
+    actor = await requireAdmin(idToken);
+  } catch (error) {
+    return { success: false, error: authorizationErrorMessage(error) };
+  }
   try {
-    await setDoc(urlsDocRef, { urls });
+    await deleteInvite(email, actor);
     return { success: true };
   } catch (error) {
-    console.error("Error saving URLs to Firestore:", error);
-    return { success: false, error: "Could not save URLs. Please check your Firestore security rules and Firebase config." };
+    console.error("Error revoking invite:", error);
+    return { success: false, error: "Could not revoke the invite." };
   }
 }
 
-export async function getStoredFeedItems(): Promise<{ data?: RssItem[]; error?: string }> {
+/** The token that authenticates the user's subscription to /feed.xml and /feed.atom. */
+export async function getFeedToken(idToken: string): Promise<{ token?: string; error?: string }> {
+  let user: VerifiedUser;
+  try {
+    user = await verifyUser(idToken);
+  } catch (error) {
+    return { error: authorizationErrorMessage(error) };
+  }
+  try {
+    return { token: await getOrCreateFeedToken(user.uid) };
+  } catch (error) {
+    console.error("Error reading feed token:", error);
+    return { error: "Could not create your subscription link." };
+  }
+}
+
+export async function resetFeedToken(idToken: string): Promise<{ token?: string; error?: string }> {
+  let user: VerifiedUser;
+  try {
+    user = await verifyUser(idToken);
+  } catch (error) {
+    return { error: authorizationErrorMessage(error) };
+  }
+  try {
+    return { token: await rotateFeedToken(user.uid) };
+  } catch (error) {
+    console.error("Error resetting feed token:", error);
+    return { error: "Could not reset your subscription link." };
+  }
+}
+
+export async function getApiTokens(idToken: string): Promise<{ data?: ApiToken[]; error?: string }> {
+  let user: VerifiedUser;
+  try {
+    user = await verifyUser(idToken);
+  } catch (error) {
+    return { error: authorizationErrorMessage(error) };
+  }
+  try {
+    return { data: await listApiTokens(user.uid) };
+  } catch (error) {
+    console.error("Error listing API tokens:", error);
+    return { error: "Could not retrieve your API tokens." };
+  }
+}
+
+export async function createApiToken(name: string, idToken: string): Promise<{success: boolean, error?: string, token?: string, apiToken?: ApiToken}> {
   if (!db) {
-    // If firestore is not configured, return empty data.
-    // The app will then proceed to fetch live data.
-    return { data: [] };
+    return { success: false, error: "Firestore is not configured. Please add your Firebase credentials to the .env file." };
+  }
+  let user: VerifiedUser;
+  try {
+    user = await verifyUser(idToken);
+  } catch (error) {
+    return { success: false, error: authorizationErrorMessage(error) };
+  }
+  const validation = apiTokenNameSchema.safeParse(name);
+  if (!validation.success) {
+    return { success: false, error: validation.error.errors[0].message };
   }
   try {
-    const itemsCollection = collection(db, 'feedItems');
-    const snapshot = await getDocs(itemsCollection);
-    if (snapshot.empty) {
-      return { data: [] };
+    const { token, apiToken } = await createStoredApiToken(user.uid, validation.data);
+    return { success: true, token, apiToken };
+  } catch (error) {
+    console.error("Error creating API token:", error);
+    return { success: false, error: "Could not create the API token." };
+  }
+}
+
+export async function revokeApiToken(id: string, idToken: string): Promise<{success: boolean, error?: string}> {
+  if (!db) {
+    return { success: false, error: "Firestore is not configured. Please add your Firebase credentials to the .env file." };
+  }
+  let user: VerifiedUser;
+  try {
+    user = await verifyUser(idToken);
+  } catch (error) {
+    return { success: false, error: authorizationErrorMessage(error) };
+  }
+  try {
+    if (!await revokeStoredApiToken(user.uid, id)) {
+      return { success: false, error: "This token no longer exists." };
     }
-    const items: RssItem[] = snapshot.docs.map(doc => doc.data() as RssItem);
-    return { data: items };
+    return { success: true };
   } catch (error) {
-    console.error("Error fetching stored items from Firestore:", error);
-    return { error: "Could not retrieve stored feed items. Please check your Firestore security rules." };
+    console.error("Error revoking API token:", error);
+    return { success: false, error: "Could not revoke the API token." };
+  }
+}
+
+export async function getEmailSubscription(idToken: string): Promise<{ data?: EmailSubscription | null; available?: boolean; error?: string }> {
+  let user: VerifiedUser;
+  try {
+    user = await verifyUser(idToken);
+  } catch (error) {
+    return { error: authorizationErrorMessage(error) };
+  }
+  try {
+    return { data: await readEmailSubscription(user.uid), available: isMailerConfigured() };
+  } catch (error) {
+    console.error("Error reading email subscription:", error);
+    return { error: "Could not retrieve your email settings." };
+  }
+}
+
+export async function updateEmailSubscription(enabled: boolean, idToken: string): Promise<{success: boolean, error?: string, subscription?: EmailSubscription}> {
+  if (!db) {
+    return { success: false, error: "Firestore is not configured. Please add your Firebase credentials to the .env file." };
+  }
+  let user: VerifiedUser;
+  try {
+    user = await verifyUser(idToken);
+  } catch (error) {
+    return { success: false, error: authorizationErrorMessage(error) };
+  }
+  if (!user.email) {
+    return { success: false, error: "Your account has no email address." };
+  }
+  try {
+    return { success: true, subscription: await setEmailSubscription(user.uid, user.email, enabled) };
+  } catch (error) {
+    console.error("Error updating email subscription:", error);
+    return { success: false, error: "Could not save your email settings." };
+  }
+}
+
+/** Used by the link in each email, so it works without signing in. */
+export async function unsubscribeFromEmails(token: string): Promise<{success: boolean, error?: string, email?: string}> {
+  try {
+    const email = await unsubscribeByToken(token);
+    if (!email) {
+      return { success: false, error: "This unsubscribe link is not valid." };
+    }
+    return { success: true, email };
+  } catch (error) {
+    console.error("Error unsubscribing:", error);
+    return { success: false, error: "Could not unsubscribe. Please try again." };
+  }
+}
+
+export async function getEmailLog(idToken: string): Promise<{ data?: EmailLogEntry[]; error?: string }> {
+  try {
+    await requireAdmin(idToken);
+  } catch (error) {
+    return { error: authorizationErrorMessage(error) };
+  }
+  try {
+    return { data: await listEmailLog() };
+  } catch (error) {
+    console.error("Error reading the email log from Firestore:", error);
+    return { error: "Could not retrieve the email log." };
+  }
+}
+
+export async function getChatWebhooks(idToken: string): Promise<{ data?: ChatWebhook[]; error?: string }> {
+  try {
+    await requireAdmin(idToken);
+  } catch (error) {
+    return { error: authorizationErrorMessage(error) };
+  }
+  try {
+    return { data: await listChatWebhooks() };
+  } catch (error) {
+    console.error("Error reading chat webhooks from Firestore:", error);
+    return { error: "Could not retrieve the chat webhooks." };
+  }
+}
+
+/** Creates a webhook when `id` is null, and updates it otherwise. */
+export async function saveChatWebhook(id: string | null, settings: ChatWebhookSettings, idToken: string): Promise<{success: boolean, error?: string, webhook?: ChatWebhook}> {
+  if (!db) {
+    return { success: false, error: "Firestore is not configured. Please add your Firebase credentials to the .env file." };
+  }
+  let user: VerifiedUser;
+  try {
+    user = await requireAdmin(idToken);
+  } catch (error) {
+    return { success: false, error: authorizationErrorMessage(error) };
+  }
+  const validation = chatWebhookSettingsSchema.safeParse(settings);
+  if (!validation.success) {
+    return { success: false, error: validation.error.errors[0].message };
+  }
+  try {
+    if (id === null) {
+      return { success: true, webhook: await createStoredChatWebhook(validation.data, user.email ?? user.uid) };
+    }
+    await updateChatWebhook(id, validation.data);
+    return { success: true };
+  } catch (error) {
+    console.error("Error saving chat webhook to Firestore:", error);
+    return { success: false, error: "Could not save the webhook." };
+  }
+}
+
+export async function deleteChatWebhook(id: string, idToken: string): Promise<{success: boolean, error?: string}> {
+  if (!db) {
+    return { success: false, error: "Firestore is not configured. Please add your Firebase credentials to the .env file." };
+  }
+  try {
+    await requireAdmin(idToken);
+  } catch (error) {
+    return { success: false, error: authorizationErrorMessage(error) };
+  }
+  try {
+    await deleteStoredChatWebhook(id);
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting chat webhook from Firestore:", error);
+    return { success: false, error: "Could not remove the webhook." };
+  }
+}
+
+/** Posts a sample message with unsaved settings, so a webhook can be checked before it is saved. */
+export async function sendTestChatMessage(settings: ChatWebhookSettings, idToken: string): Promise<{success: boolean, error?: string}> {
+  try {
+    await requireAdmin(idToken);
+  } catch (error) {
+    return { success: false, error: authorizationErrorMessage(error) };
+  }
+  const validation = chatWebhookSettingsSchema.safeParse(settings);
+  if (!validation.success) {
+    return { success: false, error: validation.error.errors[0].message };
+  }
+  try {
+    const delivery = await sendStoredTestChatMessage(validation.data);
+    return delivery.success ? { success: true } : { success: false, error: delivery.error };
+  } catch (error) {
+    console.error("Error sending test chat message:", error);
+    return { success: false, error: "Could not send the test message." };
+  }
+}
+
+export async function getOutgoingWebhooks(idToken: string): Promise<{ data?: { webhooks: OutgoingWebhook[]; deliveries: WebhookDelivery[] }; error?: string }> {
+  try {
+    await requireAdmin(idToken);
+  } catch (error) {
+    return { error: authorizationErrorMessage(error) };
+  }
+  try {
+    const [webhooks, deliveries] = await Promise.all([listOutgoingWebhooks(), listWebhookDeliveries()]);
+    return { data: { webhooks, deliveries } };
+  } catch (error) {
+    console.error("Error reading outgoing webhooks from Firestore:", error);
+    return { error: "Could not retrieve the webhooks." };
   }
 }
 
-export async function storeFeedItems(items: RssItem[]): Promise<{success: boolean, error?: string}> {
+/** Creates a webhook when `id` is null, and updates it otherwise. A new webhook's signing secret is returned only once. */
+export async function saveOutgoingWebhook(id: string | null, settings: OutgoingWebhookSettings, idToken: string): Promise<{success: boolean, error?: string, webhook?: OutgoingWebhook, secret?: string}> {
   if (!db) {
-    // Silently fail if firestore is not configured.
-    // This allows the app to function without persistence.
+    return { success: false, error: "Firestore is not configured. Please add your Firebase credentials to the .env file." };
+  }
+  let user: VerifiedUser;
+  try {
+    user = await requireAdmin(idToken);
+  } catch (error) {
+    return { success: false, error: authorizationErrorMessage(error) };
+  }
+  const validation = outgoingWebhookSettingsSchema.safeParse(settings);
+  if (!validation.success) {
+    return { success: false, error: validation.error.errors[0].message };
+  }
+  try {
+    if (id === null) {
+      const { webhook, secret } = await createStoredOutgoingWebhook(validation.data, user.email ?? user.uid);
+      return { success: true, webhook, secret };
+    }
+    await updateOutgoingWebhook(id, validation.data);
     return { success: true };
+  } catch (error) {
+    console.error("Error saving outgoing webhook to Firestore:", error);
+    return { success: false, error: "Could not save the webhook." };
   }
-  const itemsCollection = collection(db, 'feedItems');
-  try {
-    // Clear the existing items
-    const oldDocsSnapshot = await getDocs(itemsCollection);
-    const deleteBatch = writeBatch(db);
-    oldDocsSnapshot.docs.forEach(doc => deleteBatch.delete(doc.ref));
-    await deleteBatch.commit();
-    
-    // Write the new items
-    const addBatch = writeBatch(db);
-    items.forEach(item => {
-      // Use a URL-safe base64 encoding of the link as the document ID
-      const docId = Buffer.from(item.link).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
-      const docRef = doc(itemsCollection, docId);
-      addBatch.set(docRef, item);
-    });
-    await addBatch.commit();
+}
 
+export async function deleteOutgoingWebhook(id: string, idToken: string): Promise<{success: boolean, error?: string}> {
+  if (!db) {
+    return { success: false, error: "Firestore is not configured. Please add your Firebase credentials to the .env file." };
+  }
+  try {
+    await requireAdmin(idToken);
+  } catch (error) {
+    return { success: false, error: authorizationErrorMessage(error) };
+  }
+  try {
+    await deleteStoredOutgoingWebhook(id);
     return { success: true };
   } catch (error) {
-    console.error("Error storing items to Firestore:", error);
-    return { success: false, error: "Could not save items to the database." };
+    console.error("Error deleting outgoing webhook from Firestore:", error);
+    return { success: false, error: "Could not remove the webhook." };
+  }
+}
+
+export async function rotateOutgoingWebhookSecret(id: string, idToken: string): Promise<{success: boolean, error?: string, secret?: string}> {
+  if (!db) {
+    return { success: false, error: "Firestore is not configured. Please add your Firebase credentials to the .env file." };
+  }
+  try {
+    await requireAdmin(idToken);
+  } catch (error) {
+    return { success: false, error: authorizationErrorMessage(error) };
+  }
+  try {
+    const secret = await rotateWebhookSecret(id);
+    if (!secret) {
+      return { success: false, error: "This webhook no longer exists." };
+    }
+    return { success: true, secret };
+  } catch (error) {
+    console.error("Error rotating webhook secret:", error);
+    return { success: false, error: "Could not create a new signing secret." };
+  }
+}
+
+export async function redeliverWebhook(deliveryId: string, idToken: string): Promise<{success: boolean, error?: string, delivery?: WebhookDelivery}> {
+  if (!db) {
+    return { success: false, error: "Firestore is not configured. Please add your Firebase credentials to the .env file." };
+  }
+  try {
+    await requireAdmin(idToken);
+  } catch (error) {
+    return { success: false, error: authorizationErrorMessage(error) };
+  }
+  try {
+    const delivery = await redeliverWebhookDelivery(deliveryId);
+    if (!delivery) {
+      return { success: false, error: "This delivery or its webhook no longer exists." };
+    }
+    return { success: true, delivery };
+  } catch (error) {
+    console.error("Error redelivering webhook event:", error);
+    return { success: false, error: "Could not redeliver the event." };
   }
 }
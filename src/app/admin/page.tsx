@@ -1,18 +1,34 @@
 'use client';
 
-import { useState, useEffect, type FormEvent } from 'react';
-import { getFeedUrls, saveFeedUrls } from '@/app/actions';
+import { useState, useEffect, useRef, type ChangeEvent, type FormEvent } from 'react';
+import { addFeed, deleteFeed, getFeeds, importFeeds, previewFeed, updateFeed, type DiscoveredFeed, type Feed, type FeedPreview as FeedPreviewData, type FeedSettings } from '@/app/actions';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { FeedPreview } from '@/components/feed-preview';
+import { FeedSettingsDialog } from '@/components/feed-settings-dialog';
+import { OpmlImportDialog } from '@/components/opml-import-dialog';
+import { ChatWebhooks } from '@/components/chat-webhooks';
+import { RetentionSettings } from '@/components/retention-settings';
+import { buildOpml, parseOpml, type OpmlFeed } from '@/lib/opml';
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Trash2, PlusCircle, ShieldAlert } from 'lucide-react';
+import { Loader2, Trash2, PlusCircle, ShieldAlert, Pencil, Rss, FlaskConical, AlertCircle, Upload, Download } from 'lucide-react';
 import Link from 'next/link';
 import { useAuth } from '@/hooks/use-auth';
 import { useRouter } from 'next/navigation';
 
 export default function AdminPage() {
-  const [urls, setUrls] = useState<string[]>([]);
+  const [feeds, setFeeds] = useState<Feed[]>([]);
+  const [editingFeed, setEditingFeed] = useState<Feed | null>(null);
   const [newUrl, setNewUrl] = useState('');
+  const [preview, setPreview] = useState<FeedPreviewData | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [discoveredFeeds, setDiscoveredFeeds] = useState<DiscoveredFeed[]>([]);
+  const [isTesting, setIsTesting] = useState(false);
+  const [importFeedsPreview, setImportFeedsPreview] = useState<OpmlFeed[] | null>(null);
+  const [importDuplicateCount, setImportDuplicateCount] = useState(0);
+  const opmlInputRef = useRef<HTMLInputElement>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const { toast } = useToast();
@@ -26,25 +42,22 @@ export default function AdminPage() {
   }, [auth.loading, auth.user, router]);
 
   useEffect(() => {
-    async function loadUrls() {
+    async function loadFeeds() {
       if (auth.role === 'admin') {
         setIsLoading(true);
-        const fetchedUrls = await getFeedUrls();
-        setUrls(fetchedUrls);
+        const fetchedFeeds = await getFeeds(await auth.getIdToken() ?? '');
+        setFeeds(fetchedFeeds);
         setIsLoading(false);
       }
     }
     if (!auth.loading && auth.user) {
-        loadUrls();
+        loadFeeds();
     }
   }, [auth.loading, auth.user, auth.role]);
 
-  const handleAddUrl = async (e: FormEvent) => {
-    e.preventDefault();
-    if (!newUrl || isSaving) return;
-
+  const testUrl = async (url: string) => {
     try {
-        new URL(newUrl);
+        new URL(url);
     } catch (_) {
         toast({
             variant: "destructive",
@@ -54,7 +67,7 @@ export default function AdminPage() {
         return;
     }
 
-    if (urls.includes(newUrl)) {
+    if (feeds.some(feed => feed.url === url)) {
       toast({
         variant: "destructive",
         title: "Duplicate URL",
@@ -63,36 +76,170 @@ export default function AdminPage() {
       return;
     }
 
-    const updatedUrls = [...urls, newUrl];
-    await handleSave(updatedUrls);
-    setNewUrl('');
+    setIsTesting(true);
+    setPreview(null);
+    setPreviewError(null);
+    setDiscoveredFeeds([]);
+    const result = await previewFeed(url, await auth.getIdToken() ?? '');
+    if (result.data) {
+      setPreview(result.data);
+    } else {
+      setPreviewError(result.error || "The feed could not be read.");
+      setDiscoveredFeeds(result.discovered ?? []);
+    }
+    setIsTesting(false);
+  };
+
+  const handleTestUrl = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!newUrl || isTesting || isSaving) return;
+    await testUrl(newUrl);
+  };
+
+  const handleChooseDiscoveredFeed = async (url: string) => {
+    setNewUrl(url);
+    await testUrl(url);
+  };
+
+  const handleUrlChange = (url: string) => {
+    setNewUrl(url);
+    // A preview only applies to the URL it was made for.
+    setPreview(null);
+    setPreviewError(null);
+    setDiscoveredFeeds([]);
   };
 
-  const handleRemoveUrl = async (urlToRemove: string) => {
+  const handleAddFeed = async (url: string) => {
     if (isSaving) return;
-    const updatedUrls = urls.filter(url => url !== urlToRemove);
-    await handleSave(updatedUrls);
+    setIsSaving(true);
+    const result = await addFeed(url, await auth.getIdToken() ?? '');
+    if (result.success && result.feed) {
+      setFeeds([...feeds, result.feed]);
+      setNewUrl('');
+      setPreview(null);
+      toast({
+        title: "Success",
+        description: "Feed added. It will be fetched on the next ingestion run.",
+      });
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: result.error || "Failed to add the feed.",
+      });
+    }
+    setIsSaving(false);
+  };
+
+  const handleOpmlFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset the input so choosing the same file again still triggers a change.
+    e.target.value = '';
+    if (!file) return;
+
+    let parsed: OpmlFeed[];
+    try {
+      parsed = parseOpml(await file.text());
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Invalid OPML",
+        description: error instanceof Error ? error.message : "The file could not be read.",
+      });
+      return;
+    }
+
+    const knownUrls = new Set(feeds.map(feed => feed.url));
+    const newFeeds = parsed.filter(feed => {
+      if (knownUrls.has(feed.url)) return false;
+      knownUrls.add(feed.url);
+      return true;
+    });
+    if (newFeeds.length === 0) {
+      toast({
+        title: "Nothing to import",
+        description: parsed.length > 0 ? "Every feed in this file is already in your list." : "The file does not contain any feeds.",
+      });
+      return;
+    }
+    setImportDuplicateCount(parsed.length - newFeeds.length);
+    setImportFeedsPreview(newFeeds);
+  };
+
+  const handleImportFeeds = async (selected: OpmlFeed[]) => {
+    const result = await importFeeds(
+      selected.map(feed => ({ url: feed.url, name: feed.title, category: feed.category })),
+      await auth.getIdToken() ?? ''
+    );
+    if (result.success && result.added) {
+      setFeeds([...feeds, ...result.added]);
+      setImportFeedsPreview(null);
+      toast({
+        title: "Success",
+        description: `Imported ${result.added.length} ${result.added.length === 1 ? 'feed' : 'feeds'}.`,
+      });
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: result.error || "Failed to import the feeds.",
+      });
+    }
+  };
+
+  const handleExportOpml = () => {
+    const opml = buildOpml(feeds.map(feed => ({
+      url: feed.url,
+      title: feed.name || feed.title || feed.url,
+      siteUrl: feed.siteUrl,
+      category: feed.category,
+    })));
+    const url = URL.createObjectURL(new Blob([opml], { type: 'text/x-opml' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'brew-news-feeds.opml';
+    link.click();
+    URL.revokeObjectURL(url);
   };
 
-  const handleSave = async (updatedUrls: string[]) => {
+  const handleRemoveFeed = async (feedToRemove: Feed) => {
+    if (isSaving) return;
     setIsSaving(true);
-    const result = await saveFeedUrls(updatedUrls);
+    const result = await deleteFeed(feedToRemove.id, await auth.getIdToken() ?? '');
     if (result.success) {
-      setUrls(updatedUrls);
+      setFeeds(feeds.filter(feed => feed.id !== feedToRemove.id));
       toast({
         title: "Success",
-        description: "Feed list updated.",
+        description: "Feed removed.",
       });
     } else {
       toast({
         variant: "destructive",
         title: "Error",
-        description: result.error || "Failed to save URLs.",
+        description: result.error || "Failed to remove the feed.",
       });
     }
     setIsSaving(false);
   };
 
+  const handleUpdateFeed = async (feedToUpdate: Feed, settings: FeedSettings) => {
+    const result = await updateFeed(feedToUpdate.id, settings, await auth.getIdToken() ?? '');
+    if (result.success) {
+      setFeeds(feeds.map(feed => (feed.id === feedToUpdate.id ? { ...feed, ...settings } : feed)));
+      setEditingFeed(null);
+      toast({
+        title: "Success",
+        description: "Feed updated.",
+      });
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: result.error || "Failed to update the feed.",
+      });
+    }
+  };
+
   if (auth.loading || !auth.user) {
     return (
       <div className="flex items-center justify-center min-h-screen bg-background">
@@ -119,31 +266,101 @@ export default function AdminPage() {
       <main className="container mx-auto px-4 py-8 md:py-12">
         <header className="mb-12">
            <h1 className="text-4xl font-bold font-headline text-primary">Admin - Manage Feeds</h1>
-           <p className="mt-2 text-lg text-muted-foreground">Add or remove RSS feed URLs from your list.</p>
-           <Button asChild variant="link" className="p-0 mt-4">
-            <Link href="/">Back to Home</Link>
-           </Button>
+           <p className="mt-2 text-lg text-muted-foreground">Add, edit or remove the feeds in your list.</p>
+           <div className="flex gap-4 mt-4">
+            <Button asChild variant="link" className="p-0">
+              <Link href="/admin/users">Manage Users</Link>
+            </Button>
+            <Button asChild variant="link" className="p-0">
+              <Link href="/admin/webhooks">Webhooks</Link>
+            </Button>
+            <Button asChild variant="link" className="p-0">
+              <Link href="/">Back to Home</Link>
+            </Button>
+           </div>
         </header>
 
         <div className="max-w-2xl mx-auto space-y-8">
             <section>
                  <h2 className="text-2xl font-headline font-bold text-primary mb-4">Add New Feed</h2>
-                 <form onSubmit={handleAddUrl} className="flex gap-2">
+                 <form onSubmit={handleTestUrl} className="flex gap-2">
                     <Input
                         type="url"
                         placeholder="https://example.com/feed.xml"
                         value={newUrl}
-                        onChange={(e) => setNewUrl(e.target.value)}
-                        disabled={isSaving}
+                        onChange={(e) => handleUrlChange(e.target.value)}
+                        disabled={isSaving || isTesting}
                         className="flex-grow bg-card/80 border-primary/30"
                     />
-                    <Button type="submit" className="bg-accent hover:bg-accent/90" disabled={isSaving || !newUrl}>
-                        {isSaving ? <Loader2 className="animate-spin" /> : <PlusCircle />}
-                        <span className="ml-2 hidden sm:inline">Add Feed</span>
+                    <Button type="submit" variant="outline" disabled={isSaving || isTesting || !newUrl}>
+                        {isTesting ? <Loader2 className="animate-spin" /> : <FlaskConical />}
+                        <span className="ml-2 hidden sm:inline">Test Feed</span>
                     </Button>
                  </form>
+                 {isTesting && (
+                    <p className="mt-4 text-sm text-muted-foreground">Fetching and summarizing a few items...</p>
+                 )}
+                 {previewError && (
+                    <Alert variant="destructive" className="mt-4">
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertTitle>Could not read this feed</AlertTitle>
+                        <AlertDescription className="break-words">{previewError}</AlertDescription>
+                    </Alert>
+                 )}
+                 {discoveredFeeds.length > 0 && (
+                    <div className="mt-4 space-y-2">
+                        <p className="text-sm font-medium text-foreground">Choose one of the feeds this page links to:</p>
+                        {discoveredFeeds.map(discovered => (
+                            <div key={discovered.url} className="flex items-center justify-between gap-4 p-3 bg-card rounded-md border border-primary/20">
+                                <div className="min-w-0">
+                                    <p className="font-medium text-foreground truncate">{discovered.title ?? discovered.url}</p>
+                                    <p className="text-xs text-muted-foreground truncate">{discovered.type} &middot; {discovered.url}</p>
+                                </div>
+                                <Button variant="outline" size="sm" onClick={() => handleChooseDiscoveredFeed(discovered.url)} disabled={isTesting || isSaving}>
+                                    <FlaskConical className="mr-2 h-4 w-4" />
+                                    Test
+                                </Button>
+                            </div>
+                        ))}
+                    </div>
+                 )}
+                 {preview && (
+                    <div className="mt-4">
+                        <FeedPreview preview={preview}>
+                            <div className="flex justify-end gap-2">
+                                <Button variant="outline" onClick={() => setPreview(null)} disabled={isSaving}>Cancel</Button>
+                                <Button className="bg-accent hover:bg-accent/90" onClick={() => handleAddFeed(preview.url)} disabled={isSaving}>
+                                    {isSaving ? <Loader2 className="animate-spin" /> : <PlusCircle />}
+                                    <span className="ml-2">Add Feed</span>
+                                </Button>
+                            </div>
+                        </FeedPreview>
+                    </div>
+                 )}
             </section>
             
+            <section>
+                <h2 className="text-2xl font-headline font-bold text-primary mb-4">Import &amp; Export</h2>
+                <p className="text-sm text-muted-foreground mb-4">Move your feed list to and from other readers as OPML. Categories become folders.</p>
+                <div className="flex gap-2">
+                    <input
+                        ref={opmlInputRef}
+                        type="file"
+                        accept=".opml,.xml,text/x-opml,application/xml,text/xml"
+                        className="hidden"
+                        onChange={handleOpmlFileChange}
+                    />
+                    <Button variant="outline" onClick={() => opmlInputRef.current?.click()} disabled={isSaving || isLoading}>
+                        <Upload className="mr-2 h-4 w-4" />
+                        Import OPML
+                    </Button>
+                    <Button variant="outline" onClick={handleExportOpml} disabled={isLoading || feeds.length === 0}>
+                        <Download className="mr-2 h-4 w-4" />
+                        Export OPML
+                    </Button>
+                </div>
+            </section>
+
             <section>
                 <h2 className="text-2xl font-headline font-bold text-primary mb-4">Current Feeds</h2>
                 {isLoading ? (
@@ -153,13 +370,33 @@ export default function AdminPage() {
                     </div>
                 ) : (
                     <div className="space-y-2">
-                        {urls.length > 0 ? (
-                             urls.map(url => (
-                                <div key={url} className="flex items-center justify-between p-3 bg-card rounded-md border border-primary/20">
-                                    <p className="text-sm text-foreground/90 truncate mr-4">{url}</p>
-                                    <Button variant="ghost" size="icon" onClick={() => handleRemoveUrl(url)} disabled={isSaving} aria-label={`Remove ${url}`}>
-                                        <Trash2 className="h-4 w-4 text-destructive/80 hover:text-destructive" />
-                                    </Button>
+                        {feeds.length > 0 ? (
+                             feeds.map(feed => (
+                                <div key={feed.id} className="flex items-center justify-between gap-4 p-3 bg-card rounded-md border border-primary/20">
+                                    <div className="flex items-center gap-3 min-w-0">
+                                        {feed.faviconUrl ? (
+                                            <img src={feed.faviconUrl} alt="" className="h-4 w-4 shrink-0" />
+                                        ) : (
+                                            <Rss className="h-4 w-4 shrink-0 text-accent" />
+                                        )}
+                                        <div className="min-w-0">
+                                            <div className="flex items-center gap-2">
+                                                <p className="font-medium text-foreground truncate">{feed.name || feed.title || feed.url}</p>
+                                                {feed.category && <Badge variant="outline">{feed.category}</Badge>}
+                                                {!feed.enabled && <Badge variant="secondary">Paused</Badge>}
+                                            </div>
+                                            <p className="text-xs text-muted-foreground truncate">{feed.url}</p>
+                                            {feed.lastError && <p className="text-xs text-destructive truncate">{feed.lastError}</p>}
+                                        </div>
+                                    </div>
+                                    <div className="flex shrink-0">
+                                        <Button variant="ghost" size="icon" onClick={() => setEditingFeed(feed)} disabled={isSaving} aria-label={`Edit ${feed.url}`}>
+                                            <Pencil className="h-4 w-4" />
+                                        </Button>
+                                        <Button variant="ghost" size="icon" onClick={() => handleRemoveFeed(feed)} disabled={isSaving} aria-label={`Remove ${feed.url}`}>
+                                            <Trash2 className="h-4 w-4 text-destructive/80 hover:text-destructive" />
+                                        </Button>
+                                    </div>
                                 </div>
                             ))
                         ) : (
@@ -168,8 +405,31 @@ export default function AdminPage() {
                     </div>
                 )}
             </section>
+
+            <section>
+                <h2 className="text-2xl font-headline font-bold text-primary mb-4">Retention</h2>
+                <p className="text-sm text-muted-foreground mb-4">How long stored items are kept. Older items are deleted, so the home page cannot show ranges further back.</p>
+                <RetentionSettings getIdToken={auth.getIdToken} />
+            </section>
+
+            <section>
+                <h2 className="text-2xl font-headline font-bold text-primary mb-4">Chat Notifications</h2>
+                <p className="text-sm text-muted-foreground mb-4">Post new items to Slack or Google Chat channels through incoming webhooks.</p>
+                {!isLoading && <ChatWebhooks feeds={feeds} getIdToken={auth.getIdToken} />}
+            </section>
         </div>
       </main>
+      <FeedSettingsDialog
+        feed={editingFeed}
+        onOpenChange={(open) => !open && setEditingFeed(null)}
+        onSave={handleUpdateFeed}
+      />
+      <OpmlImportDialog
+        feeds={importFeedsPreview}
+        duplicateCount={importDuplicateCount}
+        onOpenChange={(open) => !open && setImportFeedsPreview(null)}
+        onImport={handleImportFeeds}
+      />
     </div>
   );
 }
@@ -0,0 +1,289 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { changeUserRole, getAuditLog, getEmailLog, getUsers, removeUser, type AppUser, type AuditLogEntry, type EmailLogEntry, type UserRole } from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { AccessSettings } from '@/components/access-settings';
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Trash2, ShieldAlert } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import Link from 'next/link';
+import { useAuth } from '@/hooks/use-auth';
+import { useRouter } from 'next/navigation';
+
+function describeAuditEntry(entry: AuditLogEntry): string {
+  const target = entry.targetEmail ?? entry.targetUid ?? 'an unknown user';
+  switch (entry.action) {
+    case 'role-changed':
+      return `changed ${target} from ${entry.fromRole ?? 'viewer'} to ${entry.toRole}`;
+    case 'user-removed':
+      return `removed ${target}`;
+    case 'user-invited':
+      return `invited ${target}`;
+    case 'invite-revoked':
+      return `revoked the invite for ${target}`;
+    case 'domains-changed':
+      return entry.domains?.length ? `allowed the domains ${entry.domains.join(', ')}` : 'removed all allowed domains';
+  }
+}
+
+export default function UsersPage() {
+  const [users, setUsers] = useState<AppUser[]>([]);
+  const [auditLog, setAuditLog] = useState<AuditLogEntry[]>([]);
+  const [emailLog, setEmailLog] = useState<EmailLogEntry[]>([]);
+  const [userToRemove, setUserToRemove] = useState<AppUser | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const auth = useAuth();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!auth.loading && !auth.user) {
+      router.push('/login');
+    }
+  }, [auth.loading, auth.user, router]);
+
+  const loadUsers = async () => {
+    const idToken = await auth.getIdToken() ?? '';
+    const [usersResult, auditLogResult, emailLogResult] = await Promise.all([getUsers(idToken), getAuditLog(idToken), getEmailLog(idToken)]);
+    if (usersResult.error) {
+      toast({ variant: "destructive", title: "Error", description: usersResult.error });
+    }
+    setUsers(usersResult.data ?? []);
+    setAuditLog(auditLogResult.data ?? []);
+    setEmailLog(emailLogResult.data ?? []);
+  };
+
+  useEffect(() => {
+    if (!auth.loading && auth.user && auth.role === 'admin') {
+      setIsLoading(true);
+      loadUsers().finally(() => setIsLoading(false));
+    }
+  }, [auth.loading, auth.user, auth.role]);
+
+  const handleRoleChange = async (user: AppUser, role: UserRole) => {
+    if (isSaving || user.role === role) return;
+    setIsSaving(true);
+    const result = await changeUserRole(user.uid, role, await auth.getIdToken() ?? '');
+    if (result.success) {
+      toast({
+        title: "Success",
+        description: `${user.email ?? 'The user'} is now ${role === 'admin' ? 'an admin' : 'a viewer'}.`,
+      });
+      await loadUsers();
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: result.error || "Failed to change the user's role.",
+      });
+    }
+    setIsSaving(false);
+  };
+
+  const handleRemoveUser = async () => {
+    if (!userToRemove || isSaving) return;
+    setIsSaving(true);
+    const result = await removeUser(userToRemove.uid, await auth.getIdToken() ?? '');
+    if (result.success) {
+      toast({
+        title: "Success",
+        description: `${userToRemove.email ?? 'The user'} was removed.`,
+      });
+      await loadUsers();
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: result.error || "Failed to remove the user.",
+      });
+    }
+    setUserToRemove(null);
+    setIsSaving(false);
+  };
+
+  if (auth.loading || !auth.user) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-background">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (auth.role !== 'admin') {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen text-center bg-background">
+        <ShieldAlert className="h-16 w-16 text-destructive mb-4" />
+        <h1 className="text-3xl font-bold">Access Denied</h1>
+        <p className="text-muted-foreground mt-2">You do not have permission to view this page.</p>
+        <Button asChild variant="link" className="mt-4">
+          <Link href="/">Back to Home</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background text-foreground font-body">
+      <main className="container mx-auto px-4 py-8 md:py-12">
+        <header className="mb-12">
+           <h1 className="text-4xl font-bold font-headline text-primary">Admin - Manage Users</h1>
+           <p className="mt-2 text-lg text-muted-foreground">Control who can sign in, and promote, demote or remove users.</p>
+           <div className="flex gap-4 mt-4">
+            <Button asChild variant="link" className="p-0">
+              <Link href="/admin">Manage Feeds</Link>
+            </Button>
+            <Button asChild variant="link" className="p-0">
+              <Link href="/">Back to Home</Link>
+            </Button>
+           </div>
+        </header>
+
+        <div className="max-w-4xl mx-auto space-y-8">
+            <section>
+                <h2 className="text-2xl font-headline font-bold text-primary mb-4">Users</h2>
+                {isLoading ? (
+                    <div className="flex justify-center items-center p-8">
+                        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                    </div>
+                ) : users.length === 0 ? (
+                    <p className="text-muted-foreground text-center p-4 bg-card/50 rounded-md">No users found.</p>
+                ) : (
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Email</TableHead>
+                                <TableHead>Role</TableHead>
+                                <TableHead>Last sign-in</TableHead>
+                                <TableHead className="w-12"><span className="sr-only">Remove</span></TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {users.map(user => {
+                                const isSelf = user.uid === auth.user?.uid;
+                                return (
+                                    <TableRow key={user.uid}>
+                                        <TableCell className="font-medium">
+                                            <div className="flex items-center gap-2">
+                                                <span className="truncate">{user.email ?? user.uid}</span>
+                                                {isSelf && <Badge variant="outline">You</Badge>}
+                                            </div>
+                                        </TableCell>
+                                        <TableCell>
+                                            <Select
+                                                value={user.role}
+                                                onValueChange={(value) => handleRoleChange(user, value as UserRole)}
+                                                disabled={isSaving || isSelf}
+                                            >
+                                                <SelectTrigger className="w-32">
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    <SelectItem value="admin">Admin</SelectItem>
+                                                    <SelectItem value="viewer">Viewer</SelectItem>
+                                                </SelectContent>
+                                            </Select>
+                                        </TableCell>
+                                        <TableCell className="text-muted-foreground">
+                                            {user.lastSignInAt ? formatDistanceToNow(new Date(user.lastSignInAt), { addSuffix: true }) : 'Never'}
+                                        </TableCell>
+                                        <TableCell>
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                onClick={() => setUserToRemove(user)}
+                                                disabled={isSaving || isSelf}
+                                                aria-label={`Remove ${user.email ?? user.uid}`}
+                                            >
+                                                <Trash2 className="h-4 w-4 text-destructive" />
+                                            </Button>
+                                        </TableCell>
+                                    </TableRow>
+                                );
+                            })}
+                        </TableBody>
+                    </Table>
+                )}
+            </section>
+
+            <section>
+                <h2 className="text-2xl font-headline font-bold text-primary mb-4">Who Can Sign In</h2>
+                <AccessSettings getIdToken={auth.getIdToken} onChange={loadUsers} />
+            </section>
+
+            <section>
+                <h2 className="text-2xl font-headline font-bold text-primary mb-4">Audit Trail</h2>
+                {!isLoading && auditLog.length === 0 ? (
+                    <p className="text-muted-foreground text-center p-4 bg-card/50 rounded-md">No changes have been made yet.</p>
+                ) : (
+                    <ul className="space-y-2">
+                        {auditLog.map(entry => (
+                            <li key={entry.id} className="flex items-center justify-between gap-4 p-3 bg-card rounded-md border border-primary/20 text-sm">
+                                <span>
+                                    <span className="font-medium">{entry.actorEmail ?? entry.actorUid}</span> {describeAuditEntry(entry)}
+                                </span>
+                                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                                    {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </section>
+
+            <section>
+                <h2 className="text-2xl font-headline font-bold text-primary mb-4">Email Deliveries</h2>
+                {!isLoading && emailLog.length === 0 ? (
+                    <p className="text-muted-foreground text-center p-4 bg-card/50 rounded-md">No weekly emails have been sent yet.</p>
+                ) : (
+                    <ul className="space-y-2">
+                        {emailLog.map(entry => (
+                            <li key={entry.id} className="flex items-center justify-between gap-4 p-3 bg-card rounded-md border border-primary/20 text-sm">
+                                <div className="min-w-0">
+                                    <div className="flex items-center gap-2">
+                                        <span className="font-medium truncate">{entry.email}</span>
+                                        <Badge variant={entry.status === 'sent' ? 'secondary' : 'destructive'}>{entry.status === 'sent' ? 'Sent' : 'Failed'}</Badge>
+                                    </div>
+                                    <p className="text-xs text-muted-foreground truncate">{entry.error ?? entry.subject}</p>
+                                </div>
+                                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                                    {formatDistanceToNow(new Date(entry.sentAt), { addSuffix: true })}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </section>
+        </div>
+      </main>
+      <AlertDialog open={!!userToRemove} onOpenChange={(open) => !open && setUserToRemove(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {userToRemove?.email ?? 'this user'}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Their account and role are deleted. They can sign up again later, but only as a viewer.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSaving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRemoveUser} disabled={isSaving}>Remove</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
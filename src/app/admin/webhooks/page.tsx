@@ -0,0 +1,316 @@
+'use client';
+
+import { Fragment, useState, useEffect } from 'react';
+import {
+  deleteOutgoingWebhook,
+  getOutgoingWebhooks,
+  redeliverWebhook,
+  rotateOutgoingWebhookSecret,
+  saveOutgoingWebhook,
+  type OutgoingWebhook,
+  type OutgoingWebhookSettings,
+  type WebhookDelivery,
+} from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { OutgoingWebhookDialog } from '@/components/outgoing-webhook-dialog';
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Trash2, ShieldAlert, Pencil, PlusCircle, KeyRound, Copy, RotateCw, Webhook } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import Link from 'next/link';
+import { useAuth } from '@/hooks/use-auth';
+import { useRouter } from 'next/navigation';
+
+function describeAttempt(attempt: WebhookDelivery['attempts'][number]): string {
+  return attempt.error ?? `Responded with status ${attempt.status}`;
+}
+
+export default function WebhooksPage() {
+  const [webhooks, setWebhooks] = useState<OutgoingWebhook[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [editingWebhook, setEditingWebhook] = useState<OutgoingWebhook | 'new' | null>(null);
+  const [revealedSecret, setRevealedSecret] = useState<{ name: string; secret: string } | null>(null);
+  const [expandedDeliveryId, setExpandedDeliveryId] = useState<string | null>(null);
+  const [redeliveringId, setRedeliveringId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const auth = useAuth();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!auth.loading && !auth.user) {
+      router.push('/login');
+    }
+  }, [auth.loading, auth.user, router]);
+
+  const loadWebhooks = async () => {
+    const result = await getOutgoingWebhooks(await auth.getIdToken() ?? '');
+    if (result.error) {
+      toast({ variant: "destructive", title: "Error", description: result.error });
+    }
+    setWebhooks(result.data?.webhooks ?? []);
+    setDeliveries(result.data?.deliveries ?? []);
+  };
+
+  useEffect(() => {
+    if (!auth.loading && auth.user && auth.role === 'admin') {
+      setIsLoading(true);
+      loadWebhooks().finally(() => setIsLoading(false));
+    }
+  }, [auth.loading, auth.user, auth.role]);
+
+  const handleSave = async (id: string | null, settings: OutgoingWebhookSettings) => {
+    const result = await saveOutgoingWebhook(id, settings, await auth.getIdToken() ?? '');
+    if (result.success) {
+      setWebhooks(
+        (result.webhook
+          ? [...webhooks, result.webhook]
+          : webhooks.map(webhook => (webhook.id === id ? { ...webhook, ...settings } : webhook))
+        ).sort((a, b) => a.name.localeCompare(b.name))
+      );
+      if (result.webhook && result.secret) {
+        setRevealedSecret({ name: result.webhook.name, secret: result.secret });
+      }
+      setEditingWebhook(null);
+      toast({ title: "Success", description: "Webhook saved." });
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.error || "Failed to save the webhook." });
+    }
+  };
+
+  const handleRemove = async (webhookToRemove: OutgoingWebhook) => {
+    if (isSaving) return;
+    setIsSaving(true);
+    const result = await deleteOutgoingWebhook(webhookToRemove.id, await auth.getIdToken() ?? '');
+    if (result.success) {
+      setWebhooks(webhooks.filter(webhook => webhook.id !== webhookToRemove.id));
+      toast({ title: "Success", description: `Webhook "${webhookToRemove.name}" removed.` });
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.error || "Failed to remove the webhook." });
+    }
+    setIsSaving(false);
+  };
+
+  const handleRotateSecret = async (webhook: OutgoingWebhook) => {
+    if (isSaving) return;
+    setIsSaving(true);
+    const result = await rotateOutgoingWebhookSecret(webhook.id, await auth.getIdToken() ?? '');
+    if (result.success && result.secret) {
+      setRevealedSecret({ name: webhook.name, secret: result.secret });
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.error || "Failed to create a new signing secret." });
+    }
+    setIsSaving(false);
+  };
+
+  const handleCopySecret = async () => {
+    if (!revealedSecret) return;
+    await navigator.clipboard.writeText(revealedSecret.secret);
+    toast({ title: "Copied", description: "The signing secret is on your clipboard." });
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    if (redeliveringId) return;
+    setRedeliveringId(delivery.id);
+    const result = await redeliverWebhook(delivery.id, await auth.getIdToken() ?? '');
+    if (result.success && result.delivery) {
+      const redelivered = result.delivery;
+      setDeliveries(deliveries.map(candidate => (candidate.id === redelivered.id ? redelivered : candidate)));
+      if (redelivered.status === 'succeeded') {
+        toast({ title: "Success", description: `${redelivered.event} redelivered to ${redelivered.webhookName}.` });
+      } else {
+        toast({ variant: "destructive", title: "Redelivery failed", description: describeAttempt(redelivered.attempts[redelivered.attempts.length - 1]) });
+      }
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.error || "Failed to redeliver the event." });
+    }
+    setRedeliveringId(null);
+  };
+
+  if (auth.loading || !auth.user) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-background">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (auth.role !== 'admin') {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen text-center bg-background">
+        <ShieldAlert className="h-16 w-16 text-destructive mb-4" />
+        <h1 className="text-3xl font-bold">Access Denied</h1>
+        <p className="text-muted-foreground mt-2">You do not have permission to view this page.</p>
+        <Button asChild variant="link" className="mt-4">
+          <Link href="/">Back to Home</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background text-foreground font-body">
+      <main className="container mx-auto px-4 py-8 md:py-12">
+        <header className="mb-12">
+           <h1 className="text-4xl font-bold font-headline text-primary">Admin - Webhooks</h1>
+           <p className="mt-2 text-lg text-muted-foreground">Send signed events to your own automation when items or feeds change.</p>
+           <div className="flex gap-4 mt-4">
+            <Button asChild variant="link" className="p-0">
+              <Link href="/admin">Manage Feeds</Link>
+            </Button>
+            <Button asChild variant="link" className="p-0">
+              <Link href="/">Back to Home</Link>
+            </Button>
+           </div>
+        </header>
+
+        <div className="max-w-4xl mx-auto space-y-8">
+            <section>
+                <h2 className="text-2xl font-headline font-bold text-primary mb-4">Webhooks</h2>
+                {revealedSecret && (
+                    <Alert className="mb-4">
+                        <KeyRound className="h-4 w-4" />
+                        <AlertTitle>Copy the signing secret for {revealedSecret.name} now</AlertTitle>
+                        <AlertDescription className="space-y-2">
+                            <p>You will not be able to see it again.</p>
+                            <div className="flex gap-2">
+                                <Input readOnly value={revealedSecret.secret} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+                                <Button variant="outline" size="icon" onClick={handleCopySecret} aria-label="Copy the signing secret">
+                                    <Copy className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        </AlertDescription>
+                    </Alert>
+                )}
+                {isLoading ? (
+                    <div className="flex justify-center items-center p-8">
+                        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                    </div>
+                ) : (
+                    <div className="space-y-4">
+                        {webhooks.length === 0 ? (
+                            <p className="text-muted-foreground text-center p-4 bg-card/50 rounded-md">No webhooks added yet.</p>
+                        ) : (
+                            <ul className="space-y-2">
+                                {webhooks.map(webhook => (
+                                    <li key={webhook.id} className="flex items-center justify-between gap-4 p-3 bg-card rounded-md border border-primary/20">
+                                        <div className="flex items-center gap-3 min-w-0">
+                                            <Webhook className="h-4 w-4 shrink-0 text-accent" />
+                                            <div className="min-w-0">
+                                                <div className="flex items-center gap-2">
+                                                    <p className="font-medium text-foreground truncate">{webhook.name}</p>
+                                                    {!webhook.enabled && <Badge variant="secondary">Paused</Badge>}
+                                                </div>
+                                                <p className="text-xs text-muted-foreground truncate">{webhook.url}</p>
+                                                <p className="text-xs text-muted-foreground truncate">{webhook.events.join(', ')}</p>
+                                            </div>
+                                        </div>
+                                        <div className="flex shrink-0">
+                                            <Button variant="ghost" size="icon" onClick={() => setEditingWebhook(webhook)} disabled={isSaving} aria-label={`Edit ${webhook.name}`}>
+                                                <Pencil className="h-4 w-4" />
+                                            </Button>
+                                            <Button variant="ghost" size="icon" onClick={() => handleRotateSecret(webhook)} disabled={isSaving} aria-label={`New signing secret for ${webhook.name}`}>
+                                                <KeyRound className="h-4 w-4" />
+                                            </Button>
+                                            <Button variant="ghost" size="icon" onClick={() => handleRemove(webhook)} disabled={isSaving} aria-label={`Remove ${webhook.name}`}>
+                                                <Trash2 className="h-4 w-4 text-destructive/80 hover:text-destructive" />
+                                            </Button>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                        <Button variant="outline" onClick={() => setEditingWebhook('new')} disabled={isSaving}>
+                            <PlusCircle className="mr-2 h-4 w-4" />
+                            Add Webhook
+                        </Button>
+                    </div>
+                )}
+            </section>
+
+            <section>
+                <h2 className="text-2xl font-headline font-bold text-primary mb-4">Recent Deliveries</h2>
+                {!isLoading && deliveries.length === 0 ? (
+                    <p className="text-muted-foreground text-center p-4 bg-card/50 rounded-md">No events have been sent yet.</p>
+                ) : (
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Event</TableHead>
+                                <TableHead>Webhook</TableHead>
+                                <TableHead>Status</TableHead>
+                                <TableHead>Sent</TableHead>
+                                <TableHead className="w-12"><span className="sr-only">Redeliver</span></TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {deliveries.map(delivery => (
+                                <Fragment key={delivery.id}>
+                                    <TableRow
+                                        className="cursor-pointer"
+                                        onClick={() => setExpandedDeliveryId(expandedDeliveryId === delivery.id ? null : delivery.id)}
+                                    >
+                                        <TableCell><code className="text-xs">{delivery.event}</code></TableCell>
+                                        <TableCell className="truncate">{delivery.webhookName}</TableCell>
+                                        <TableCell>
+                                            <Badge variant={delivery.status === 'succeeded' ? 'secondary' : 'destructive'}>
+                                                {delivery.status === 'succeeded' ? 'Delivered' : 'Failed'}
+                                            </Badge>
+                                        </TableCell>
+                                        <TableCell className="text-muted-foreground whitespace-nowrap">
+                                            {formatDistanceToNow(new Date(delivery.createdAt), { addSuffix: true })}
+                                        </TableCell>
+                                        <TableCell>
+                                            {delivery.status === 'failed' && (
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    onClick={(e) => { e.stopPropagation(); handleRedeliver(delivery); }}
+                                                    disabled={!!redeliveringId}
+                                                    aria-label={`Redeliver ${delivery.event} to ${delivery.webhookName}`}
+                                                >
+                                                    {redeliveringId === delivery.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCw className="h-4 w-4" />}
+                                                </Button>
+                                            )}
+                                        </TableCell>
+                                    </TableRow>
+                                    {expandedDeliveryId === delivery.id && (
+                                        <TableRow>
+                                            <TableCell colSpan={5} className="bg-card/50 space-y-2 text-xs">
+                                                {delivery.attempts.length === 0 ? (
+                                                    <p className="text-muted-foreground">Not sent, because an earlier event for this webhook failed in the same run.</p>
+                                                ) : (
+                                                    <ol className="space-y-1">
+                                                        {delivery.attempts.map((attempt, index) => (
+                                                            <li key={index} className={attempt.error ? 'text-destructive' : 'text-muted-foreground'}>
+                                                                {new Date(attempt.attemptedAt).toLocaleString()} · {describeAttempt(attempt)} · {attempt.durationMs} ms
+                                                            </li>
+                                                        ))}
+                                                    </ol>
+                                                )}
+                                                <pre className="whitespace-pre-wrap break-all font-mono text-muted-foreground max-h-64 overflow-y-auto">
+                                                    {JSON.stringify(JSON.parse(delivery.payload), null, 2)}
+                                                </pre>
+                                            </TableCell>
+                                        </TableRow>
+                                    )}
+                                </Fragment>
+                            ))}
+                        </TableBody>
+                    </Table>
+                )}
+            </section>
+        </div>
+      </main>
+      <OutgoingWebhookDialog
+        webhook={editingWebhook}
+        onOpenChange={(open) => !open && setEditingWebhook(null)}
+        onSave={handleSave}
+      />
+    </div>
+  );
+}
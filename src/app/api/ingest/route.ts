@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { isAuthorizedCronRequest } from '@/lib/cron-auth';
+import { runIngestion } from '@/lib/ingest';
+
+export const dynamic = 'force-dynamic';
+
+// Cloud Scheduler sends POST requests; most other cron services send GET.
+async function handler(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const result = await runIngestion();
+  const failed = result.feeds.filter(feed => feed.status === 'failed');
+  return NextResponse.json(result, { status: failed.length > 0 && failed.length === result.feeds.length ? 502 : 200 });
+}
+
+export { handler as GET, handler as POST };
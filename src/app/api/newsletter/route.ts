@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { isAuthorizedCronRequest } from '@/lib/cron-auth';
+import { sendWeeklyNewsletter } from '@/lib/newsletter';
+
+export const dynamic = 'force-dynamic';
+
+// Cloud Scheduler sends POST requests; most other cron services send GET.
+async function handler(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const result = await sendWeeklyNewsletter();
+  const failed = result.recipients.filter(recipient => recipient.status === 'failed');
+  const status = result.error ? 503 : failed.length > 0 && failed.length === result.recipients.length ? 502 : 200;
+  return NextResponse.json(result, { status });
+}
+
+export { handler as GET, handler as POST };
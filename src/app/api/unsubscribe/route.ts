@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { unsubscribeByToken } from '@/lib/email-subscriptions';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * One-click unsubscribe (RFC 8058). Mail clients POST to the List-Unsubscribe
+ * URL; people following the link in the email land on /unsubscribe instead.
+ */
+export async function POST(request: Request) {
+  const token = new URL(request.url).searchParams.get('token') ?? '';
+  try {
+    if (!await unsubscribeByToken(token)) {
+      return NextResponse.json({ error: 'Unknown unsubscribe link.' }, { status: 404 });
+    }
+    return NextResponse.json({ unsubscribed: true });
+  } catch (error) {
+    console.error("Error unsubscribing:", error);
+    return NextResponse.json({ error: 'Could not unsubscribe.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { authenticateApiRequest } from '@/lib/api-tokens';
+import { listFeeds } from '@/lib/feed-store';
+
+export const dynamic = 'force-dynamic';
+
+/** GET /api/v1/feeds lists the feeds items are ingested from. */
+export async function GET(request: Request) {
+  try {
+    const user = await authenticateApiRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'A valid API token is required.' }, { status: 401 });
+    }
+
+    const feeds = await listFeeds();
+    return NextResponse.json({
+      data: feeds
+        .sort((a, b) => (a.name || a.title || a.url).localeCompare(b.name || b.title || b.url))
+        .map(feed => ({
+          id: feed.id,
+          url: feed.url,
+          name: feed.name || feed.title || feed.url,
+          title: feed.title ?? null,
+          siteUrl: feed.siteUrl ?? null,
+          category: feed.category || null,
+          enabled: feed.enabled,
+          lastFetchedAt: feed.lastFetchedAt ?? null,
+          lastSucceededAt: feed.lastSucceededAt ?? null,
+          lastError: feed.lastError ?? null,
+        })),
+    });
+  } catch (error) {
+    console.error("Error listing feeds for the API:", error);
+    return NextResponse.json({ error: 'Could not retrieve the feeds.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,104 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateApiRequest } from '@/lib/api-tokens';
+import { queryItemPage, type ItemPosition, type QueriedItem } from '@/lib/item-query';
+import type { Feed } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+const dateParam = z.string().refine(value => !isNaN(new Date(value).getTime()), { message: 'must be an ISO-8601 date' }).transform(value => new Date(value));
+
+const paramsSchema = z.object({
+  from: dateParam.optional(),
+  to: dateParam.optional(),
+  q: z.string().trim().max(200).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_LIMIT).default(DEFAULT_LIMIT),
+  cursor: z.string().optional(),
+});
+
+// A cursor is the position of the last item on a page: its publication time and ID.
+const cursorSchema = z.tuple([z.number(), z.string()]);
+
+function encodeCursor({ publishedAt, id }: ItemPosition): string {
+  return Buffer.from(JSON.stringify([publishedAt, id])).toString('base64url');
+}
+
+function decodeCursor(cursor: string): ItemPosition | null {
+  try {
+    const parsed = cursorSchema.safeParse(JSON.parse(Buffer.from(cursor, 'base64url').toString()));
+    return parsed.success ? { publishedAt: parsed.data[0], id: parsed.data[1] } : null;
+  } catch {
+    return null;
+  }
+}
+
+function toApiFeed(feed: Feed) {
+  return { id: feed.id, url: feed.url, name: feed.name || feed.title || feed.url };
+}
+
+function toApiItem({ id, item, feed, sources, publishedAt }: QueriedItem) {
+  const links = new Map(item.sources?.map(source => [source.feedUrl, source.link]));
+  return {
+    id,
+    guid: item.guid ?? null,
+    title: item.title,
+    link: item.link,
+    publishedAt: publishedAt ? new Date(publishedAt).toISOString() : null,
+    summary: item.summary ?? [],
+    content: item.description,
+    feed: feed ? toApiFeed(feed) : null,
+    sources: sources.map(source => ({ ...toApiFeed(source), link: links.get(source.url) ?? item.link })),
+    category: feed?.category || null,
+    firstSeenAt: item.firstSeenAt ?? null,
+    lastSeenAt: item.lastSeenAt ?? null,
+  };
+}
+
+/**
+ * GET /api/v1/items?from=&to=&feed=&category=&q=&limit=&cursor=
+ *
+ * Lists stored items, newest first. `feed` (URL or ID) and `category` may be
+ * repeated. Pass the `nextCursor` of one page as `cursor` to get the next.
+ * A page may hold fewer than `limit` items, even none, while `nextCursor` is
+ * set; the list has ended only when it is null.
+ */
+export async function GET(request: Request) {
+  try {
+    const user = await authenticateApiRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'A valid API token is required.' }, { status: 401 });
+    }
+
+    const url = new URL(request.url);
+    const validation = paramsSchema.safeParse(Object.fromEntries(url.searchParams));
+    if (!validation.success) {
+      const issue = validation.error.errors[0];
+      return NextResponse.json({ error: `Invalid ${issue.path.join('.')}: ${issue.message}` }, { status: 400 });
+    }
+    const { from, to, q, limit, cursor } = validation.data;
+    const position = cursor ? decodeCursor(cursor) : null;
+    if (cursor && !position) {
+      return NextResponse.json({ error: 'Invalid cursor.' }, { status: 400 });
+    }
+
+    const { items: page, next } = await queryItemPage({
+      feeds: url.searchParams.getAll('feed'),
+      categories: url.searchParams.getAll('category'),
+      from,
+      to,
+      query: q,
+      after: position ?? undefined,
+    }, limit);
+
+    return NextResponse.json({
+      data: page.map(toApiItem),
+      nextCursor: next ? encodeCursor(next) : null,
+    });
+  } catch (error) {
+    console.error("Error listing items for the API:", error);
+    return NextResponse.json({ error: 'Could not retrieve the items.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,7 @@
+import { serveFeed } from '@/lib/outgoing-feed';
+
+export const dynamic = 'force-dynamic';
+
+export function GET(request: Request) {
+  return serveFeed(request, 'atom');
+}
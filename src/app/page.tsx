@@ -3,87 +3,76 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-import { fetchRssFeed, type RssItem, getFeedUrls, getStoredFeedItems, storeFeedItems } from './actions';
-import { differenceInDays } from 'date-fns';
-import { Rss, Loader2, AlertCircle, Settings, RefreshCw, LogOut } from 'lucide-react';
+import { type DigestPeriod, type RssItem, type WeeklyDigest as WeeklyDigestData, getFeeds, getStoredFeedItems, getWeeklyDigests } from './actions';
+import { Rss, Loader2, AlertCircle, Settings, RefreshCw, LogOut, UserCircle } from 'lucide-react';
 import { ReleaseNotesTable } from '@/components/release-notes-table';
+import { SubscribeDialog } from '@/components/subscribe-dialog';
+import { WeeklyDigest } from '@/components/weekly-digest';
+import { TimeWindowControls } from '@/components/time-window-controls';
+import { DEFAULT_TIME_WINDOW, groupItems, itemsInRange, windowBounds, type ItemGrouping, type TimeWindow } from '@/lib/item-grouping';
+import { ItemRevisionsDialog } from '@/components/item-revisions-dialog';
 import Link from 'next/link';
 import { useAuth } from '@/hooks/use-auth';
 import { useRouter } from 'next/navigation';
 
+// Digests cover rolling windows counted back from when they were written, not calendar weeks.
+const DIGESTS: { period: DigestPeriod; title: string }[] = [
+  { period: 'this-week', title: 'Last 7 days' },
+  { period: 'last-week', title: '8–14 days ago' },
+];
+
 export default function Home() {
   const [items, setItems] = useState<RssItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingItems, setIsLoadingItems] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [hasUrls, setHasUrls] = useState(false);
+  const [digests, setDigests] = useState<Partial<Record<DigestPeriod, WeeklyDigestData>>>({});
+  const [categories, setCategories] = useState<string[]>([]);
+  const [feedNames, setFeedNames] = useState<Record<string, string>>({});
+  const [isSubscribeOpen, setIsSubscribeOpen] = useState(false);
+  const [editedItem, setEditedItem] = useState<RssItem | null>(null);
+  const [timeWindow, setTimeWindow] = useState<TimeWindow>(DEFAULT_TIME_WINDOW);
+  const [grouping, setGrouping] = useState<ItemGrouping>('week');
 
   const auth = useAuth();
   const router = useRouter();
 
-  const loadFeeds = useCallback(async (fromCache: boolean) => {
+  // Feeds are fetched by the background ingestion job; the page only reads what it stored.
+  const loadFeeds = useCallback(async () => {
     setIsLoading(true);
     setError(null);
     
-    const feedUrls = await getFeedUrls();
-    setHasUrls(feedUrls.length > 0);
+    const idToken = await auth.getIdToken() ?? '';
+    const feeds = await getFeeds(idToken);
+    setHasUrls(feeds.length > 0);
+    setCategories([...new Set(feeds.map(feed => feed.category).filter(Boolean))].sort());
+    setFeedNames(Object.fromEntries(feeds.map(feed => [feed.url, feed.name || feed.title || feed.url])));
 
-    if (feedUrls.length === 0) {
-      setItems([]);
+    if (feeds.length === 0) {
       setIsLoading(false);
       return;
     }
 
-    if (fromCache) {
-      const { data: storedItems, error: storeError } = await getStoredFeedItems();
-      if (storeError) {
-        setError(storeError);
-      }
-      if (storedItems && storedItems.length > 0) {
-        setItems(storedItems);
-        setIsLoading(false);
-        return; // Exit if we successfully loaded from the database
-      }
-    }
-
-    // If not loading from the database, or if the database was empty, fetch fresh data from all feeds.
-    const results = await Promise.all(feedUrls.map(url => fetchRssFeed(url)));
-    
-    const allItems: RssItem[] = [];
-    const allErrors: string[] = [];
-
-    results.forEach((result, index) => {
-      if (result.data) {
-        allItems.push(...result.data);
-      }
-      if (result.error) {
-        allErrors.push(`Feed "${feedUrls[index]}": ${result.error}`);
-      }
-    });
-    
-    if (allErrors.length > 0) {
-      setError(allErrors.join('\n'));
-    }
-
-    // Set UI with all fresh items, and then update the database
-    setItems(allItems);
-
-    const now = new Date();
-    const itemsToStore = allItems.filter(item => {
-      if (!item.pubDate) return false;
-      try {
-        const itemDate = new Date(item.pubDate);
-        if (isNaN(itemDate.getTime())) return false;
-        const daysAgo = differenceInDays(now, itemDate);
-        return daysAgo >= 0 && daysAgo <= 14;
-      } catch (e) {
-        return false;
-      }
-    });
-    
-    await storeFeedItems(itemsToStore);
-
+    const { data: storedDigests } = await getWeeklyDigests(idToken);
+    setDigests(storedDigests ?? {});
     setIsLoading(false);
-  }, []);
+  }, [auth.getIdToken]);
+
+  // Only the items in the selected window are read, and read again when it changes.
+  const loadItems = useCallback(async () => {
+    setIsLoadingItems(true);
+    const { from, to } = windowBounds(timeWindow);
+    const { data: storedItems, error: storeError } = await getStoredFeedItems(
+      { from: from.toISOString(), to: to.toISOString() },
+      await auth.getIdToken() ?? '',
+    );
+    if (storeError) {
+      setError(storeError);
+    }
+    setItems(storedItems ?? []);
+    setIsLoadingItems(false);
+  }, [auth.getIdToken, timeWindow]);
 
   useEffect(() => {
     if (!auth.loading && !auth.user) {
@@ -93,40 +82,24 @@ export default function Home() {
   
   useEffect(() => {
     if (auth.user) {
-        loadFeeds(true);
+        loadFeeds();
     }
   }, [auth.user, loadFeeds]);
 
+  useEffect(() => {
+    if (auth.user) {
+      loadItems();
+    }
+  }, [auth.user, loadItems]);
+
 
-  const { thisWeekItems, lastWeekItems } = (() => {
-    const now = new Date();
-    const thisWeek: RssItem[] = [];
-    const lastWeek: RssItem[] = [];
-
-    items.forEach(item => {
-      if (!item.pubDate) return;
-      try {
-        const itemDate = new Date(item.pubDate);
-        if (isNaN(itemDate.getTime())) return;
-
-        const daysAgo = differenceInDays(now, itemDate);
-        if (daysAgo >= 0 && daysAgo <= 7) {
-          thisWeek.push(item);
-        } else if (daysAgo > 7 && daysAgo <= 14) {
-          lastWeek.push(item);
-        }
-      } catch (e) {
-        // Ignore items with invalid dates
-      }
-    });
-
-    // Sort by date, newest first
-    const sortByDate = (a: RssItem, b: RssItem) => new Date(b.pubDate).getTime() - new Date(a.pubDate).getTime();
-    thisWeek.sort(sortByDate);
-    lastWeek.sort(sortByDate);
-
-    return { thisWeekItems: thisWeek, lastWeekItems: lastWeek };
-  })();
+  const { from, to } = windowBounds(timeWindow);
+  const groups = groupItems(itemsInRange(items, from, to), grouping, feedNames);
+  // A digest is only shown while the selected range overlaps the items it was written from.
+  const shownDigests = DIGESTS.filter(({ period }) => {
+    const digest = digests[period];
+    return digest && new Date(digest.periodStart) <= to && new Date(digest.periodEnd) >= from;
+  });
 
   if (auth.loading || !auth.user) {
     return (
@@ -152,10 +125,14 @@ export default function Home() {
               </p>
             </div>
             <div className="flex items-center gap-2">
-              <Button variant="outline" onClick={() => loadFeeds(false)} disabled={isLoading}>
+              <Button variant="outline" onClick={() => { loadFeeds(); loadItems(); }} disabled={isLoading || isLoadingItems}>
                 <RefreshCw className="mr-2 h-4 w-4" />
                 Refresh Feeds
               </Button>
+              <Button variant="outline" onClick={() => setIsSubscribeOpen(true)}>
+                <Rss className="mr-2 h-4 w-4" />
+                Subscribe
+              </Button>
               {auth.role === 'admin' && (
                 <Button asChild variant="outline">
                   <Link href="/admin">
@@ -164,6 +141,12 @@ export default function Home() {
                   </Link>
                 </Button>
               )}
+              <Button asChild variant="ghost">
+                <Link href="/account">
+                  <UserCircle className="mr-2" />
+                  Account
+                </Link>
+              </Button>
                <Button variant="ghost" onClick={auth.signOut}>
                 <LogOut className="mr-2" />
                 Sign Out
@@ -189,27 +172,37 @@ export default function Home() {
 
         {!isLoading && !error && (
           <div className="animate-in fade-in-50 duration-500 space-y-12">
-            {thisWeekItems.length > 0 && (
-              <section>
-                <h2 className="text-3xl font-headline font-bold text-primary mb-6 border-b-2 border-accent/50 pb-2">
-                  This Week
-                </h2>
-                <ReleaseNotesTable items={thisWeekItems} />
-              </section>
+            {hasUrls && (
+              <TimeWindowControls
+                window={timeWindow}
+                onWindowChange={setTimeWindow}
+                grouping={grouping}
+                onGroupingChange={setGrouping}
+              />
             )}
 
-            {lastWeekItems.length > 0 && (
-              <section>
+            {shownDigests.length > 0 && (
+              <div>
+                {shownDigests.map(({ period, title }) => (
+                  <WeeklyDigest key={period} digest={digests[period]!} title={title} />
+                ))}
+              </div>
+            )}
+
+            {isLoadingItems && <Loader2 className="mx-auto h-8 w-8 animate-spin text-primary" />}
+
+            {!isLoadingItems && groups.map(group => (
+              <section key={group.key}>
                 <h2 className="text-3xl font-headline font-bold text-primary mb-6 border-b-2 border-accent/50 pb-2">
-                  Last Week
+                  {group.label}
                 </h2>
-                <ReleaseNotesTable items={lastWeekItems} />
+                <ReleaseNotesTable items={group.items} feedNames={feedNames} onShowEdits={setEditedItem} />
               </section>
-            )}
-            
-            {thisWeekItems.length === 0 && lastWeekItems.length === 0 && items.length > 0 && (
+            ))}
+
+            {!isLoadingItems && groups.length === 0 && hasUrls && (
                <div className="text-center py-10">
-                <p className="text-muted-foreground">No new updates from the last two weeks.</p>
+                <p className="text-muted-foreground">No updates in this time range.</p>
                </div>
             )}
              {!isLoading && !hasUrls && auth.role === 'admin' && (
@@ -232,6 +225,17 @@ export default function Home() {
           Brew News &copy; {new Date().getFullYear()}
         </p>
       </footer>
+      <SubscribeDialog
+        open={isSubscribeOpen}
+        onOpenChange={setIsSubscribeOpen}
+        getIdToken={auth.getIdToken}
+        categories={categories}
+      />
+      <ItemRevisionsDialog
+        item={editedItem}
+        onOpenChange={(open) => !open && setEditedItem(null)}
+        getIdToken={auth.getIdToken}
+      />
     </div>
   );
 }
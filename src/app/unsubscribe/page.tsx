@@ -0,0 +1,77 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { unsubscribeFromEmails } from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertCircle, Loader2, MailCheck } from 'lucide-react';
+import Link from 'next/link';
+
+// Reached from the link in each weekly email, so it works without signing in.
+function UnsubscribeForm() {
+  const token = useSearchParams().get('token') ?? '';
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [unsubscribedEmail, setUnsubscribedEmail] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(token ? null : "This unsubscribe link is not valid.");
+
+  const handleUnsubscribe = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    const result = await unsubscribeFromEmails(token);
+    if (result.success && result.email) {
+      setUnsubscribedEmail(result.email);
+    } else {
+      setError(result.error || "Could not unsubscribe. Please try again.");
+    }
+    setIsSubmitting(false);
+  };
+
+  return (
+    <Card className="w-[400px]">
+      <CardHeader>
+        <CardTitle className="font-headline text-primary">Weekly Email</CardTitle>
+        <CardDescription>Stop receiving the Brew News weekly digest.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {unsubscribedEmail ? (
+          <Alert>
+            <MailCheck className="h-4 w-4" />
+            <AlertTitle>You are unsubscribed</AlertTitle>
+            <AlertDescription>
+              {unsubscribedEmail} will no longer receive the weekly digest. You can turn it back on from your account page.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Error</AlertTitle>
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            <Button onClick={handleUnsubscribe} className="w-full" disabled={isSubmitting || !token}>
+              {isSubmitting && <Loader2 className="mr-2 animate-spin" />}
+              Unsubscribe
+            </Button>
+          </>
+        )}
+        <Button asChild variant="link" className="p-0">
+          <Link href="/">Back to Home</Link>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function UnsubscribePage() {
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-background">
+      <Suspense fallback={<Loader2 className="h-12 w-12 animate-spin text-primary" />}>
+        <UnsubscribeForm />
+      </Suspense>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+'use client';
+
+import { useEffect, useState, type FormEvent } from 'react';
+import { getAccessSettings, inviteUser, revokeInvite, saveAllowedDomains, type Invite } from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Trash2, UserPlus } from 'lucide-react';
+
+type AccessSettingsProps = {
+  getIdToken: () => Promise<string | undefined>;
+  /** Called after any change, so the page can refresh its audit trail. */
+  onChange?: () => void;
+};
+
+export function AccessSettings({ getIdToken, onChange }: AccessSettingsProps) {
+  const [domains, setDomains] = useState('');
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    async function loadAccessSettings() {
+      const result = await getAccessSettings(await getIdToken() ?? '');
+      if (result.data) {
+        setDomains(result.data.allowedDomains.join(', '));
+        setInvites(result.data.invites);
+      } else {
+        toast({ variant: "destructive", title: "Error", description: result.error });
+      }
+      setIsLoading(false);
+    }
+    loadAccessSettings();
+  }, [getIdToken, toast]);
+
+  const handleSaveDomains = async (e: FormEvent) => {
+    e.preventDefault();
+    if (isSaving) return;
+    setIsSaving(true);
+    const result = await saveAllowedDomains(domains.split(/[\s,]+/), await getIdToken() ?? '');
+    if (result.success) {
+      setDomains(result.allowedDomains?.join(', ') ?? '');
+      toast({ title: "Success", description: "Allowed domains saved." });
+      onChange?.();
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.error || "Failed to save the allowed domains." });
+    }
+    setIsSaving(false);
+  };
+
+  const handleInvite = async (e: FormEvent) => {
+    e.preventDefault();
+    if (isSaving || !inviteEmail) return;
+    setIsSaving(true);
+    const result = await inviteUser(inviteEmail, await getIdToken() ?? '');
+    if (result.success && result.invite) {
+      setInvites([...invites, result.invite].sort((a, b) => a.email.localeCompare(b.email)));
+      setInviteEmail('');
+      toast({ title: "Success", description: `${result.invite.email} can now sign in.` });
+      onChange?.();
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.error || "Failed to invite the user." });
+    }
+    setIsSaving(false);
+  };
+
+  const handleRevoke = async (invite: Invite) => {
+    if (isSaving) return;
+    setIsSaving(true);
+    const result = await revokeInvite(invite.email, await getIdToken() ?? '');
+    if (result.success) {
+      setInvites(invites.filter(candidate => candidate.email !== invite.email));
+      toast({ title: "Success", description: `Invite for ${invite.email} revoked.` });
+      onChange?.();
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.error || "Failed to revoke the invite." });
+    }
+    setIsSaving(false);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSaveDomains} className="space-y-2">
+        <Label htmlFor="allowed-domains">Allowed email domains</Label>
+        <div className="flex gap-2">
+          <Input
+            id="allowed-domains"
+            placeholder="example.com, example.org"
+            value={domains}
+            onChange={(e) => setDomains(e.target.value)}
+            disabled={isSaving}
+            className="flex-grow bg-card/80 border-primary/30"
+          />
+          <Button type="submit" variant="outline" disabled={isSaving}>Save</Button>
+        </div>
+        <p className="text-xs text-muted-foreground">Anyone with a verified address on these domains can sign in as a viewer.</p>
+      </form>
+
+      <div className="space-y-2">
+        <form onSubmit={handleInvite} className="space-y-2">
+          <Label htmlFor="invite-email">Invite someone else</Label>
+          <div className="flex gap-2">
+            <Input
+              id="invite-email"
+              type="email"
+              placeholder="name@example.net"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              disabled={isSaving}
+              className="flex-grow bg-card/80 border-primary/30"
+            />
+            <Button type="submit" className="bg-accent hover:bg-accent/90" disabled={isSaving || !inviteEmail}>
+              <UserPlus className="h-4 w-4" />
+              <span className="ml-2 hidden sm:inline">Invite</span>
+            </Button>
+          </div>
+        </form>
+        {invites.length > 0 && (
+          <ul className="space-y-2">
+            {invites.map(invite => (
+              <li key={invite.email} className="flex items-center justify-between gap-2 p-3 bg-card rounded-md border border-primary/20">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{invite.email}</p>
+                  <p className="text-xs text-muted-foreground truncate">Invited by {invite.invitedBy}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleRevoke(invite)}
+                  disabled={isSaving}
+                  aria-label={`Revoke invite for ${invite.email}`}
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
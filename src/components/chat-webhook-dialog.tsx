@@ -0,0 +1,168 @@
+'use client';
+
+import { useEffect, useState, type FormEvent } from 'react';
+import { sendTestChatMessage, type ChatWebhook, type ChatWebhookSettings, type Feed } from '@/app/actions';
+import { DEFAULT_CHAT_TEMPLATE, renderChatMessage, SAMPLE_CHAT_ITEM } from '@/lib/chat-message';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Send } from 'lucide-react';
+
+const NEW_WEBHOOK: ChatWebhookSettings = {
+  name: '',
+  url: '',
+  feedIds: [],
+  categories: [],
+  template: DEFAULT_CHAT_TEMPLATE,
+  enabled: true,
+};
+
+type ChatWebhookDialogProps = {
+  /** The webhook to edit, `'new'` to add one, or null when closed. */
+  webhook: ChatWebhook | 'new' | null;
+  feeds: Feed[];
+  getIdToken: () => Promise<string | undefined>;
+  onOpenChange: (open: boolean) => void;
+  onSave: (id: string | null, settings: ChatWebhookSettings) => Promise<void>;
+};
+
+function toggle(values: string[], value: string, checked: boolean): string[] {
+  return checked ? [...values, value] : values.filter(candidate => candidate !== value);
+}
+
+export function ChatWebhookDialog({ webhook, feeds, getIdToken, onOpenChange, onSave }: ChatWebhookDialogProps) {
+  const [settings, setSettings] = useState<ChatWebhookSettings>(NEW_WEBHOOK);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (webhook === 'new') {
+      setSettings(NEW_WEBHOOK);
+    } else if (webhook) {
+      const { name, url, feedIds, categories, template, enabled } = webhook;
+      setSettings({ name, url, feedIds, categories, template, enabled });
+    }
+  }, [webhook]);
+
+  const categories = [...new Set([...feeds.map(feed => feed.category), ...settings.categories].filter(Boolean))].sort();
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!webhook) return;
+    setIsSaving(true);
+    await onSave(webhook === 'new' ? null : webhook.id, settings);
+    setIsSaving(false);
+  };
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    const result = await sendTestChatMessage(settings, await getIdToken() ?? '');
+    if (result.success) {
+      toast({ title: "Success", description: "Test message sent." });
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.error || "Failed to send the test message." });
+    }
+    setIsTesting(false);
+  };
+
+  return (
+    <Dialog open={!!webhook} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{webhook === 'new' ? 'Add Chat Webhook' : 'Edit Chat Webhook'}</DialogTitle>
+          <DialogDescription>
+            New items are posted to a Slack or Google Chat incoming webhook as soon as they are ingested.
+          </DialogDescription>
+        </DialogHeader>
+        <form id="chat-webhook" onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="webhook-name">Name</Label>
+            <Input
+              id="webhook-name"
+              value={settings.name}
+              placeholder="e.g. #releases"
+              onChange={(e) => setSettings({ ...settings, name: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="webhook-url">Webhook URL</Label>
+            <Input
+              id="webhook-url"
+              type="url"
+              value={settings.url}
+              placeholder="https://hooks.slack.com/services/…"
+              onChange={(e) => setSettings({ ...settings, url: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Post items from</Label>
+            <p className="text-xs text-muted-foreground">Leave everything unticked to post items from every feed.</p>
+            <div className="max-h-48 overflow-y-auto space-y-2 rounded-md border border-primary/20 p-3">
+              {categories.map(category => (
+                <div key={`category-${category}`} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`webhook-category-${category}`}
+                    checked={settings.categories.includes(category)}
+                    onCheckedChange={(checked) => setSettings({ ...settings, categories: toggle(settings.categories, category, checked === true) })}
+                  />
+                  <Label htmlFor={`webhook-category-${category}`} className="font-normal">Every feed in {category}</Label>
+                </div>
+              ))}
+              {feeds.map(feed => (
+                <div key={feed.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`webhook-feed-${feed.id}`}
+                    checked={settings.feedIds.includes(feed.id)}
+                    onCheckedChange={(checked) => setSettings({ ...settings, feedIds: toggle(settings.feedIds, feed.id, checked === true) })}
+                  />
+                  <Label htmlFor={`webhook-feed-${feed.id}`} className="font-normal truncate">{feed.name || feed.title || feed.url}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="webhook-template">Message</Label>
+            <Textarea
+              id="webhook-template"
+              value={settings.template}
+              rows={3}
+              className="font-mono text-xs"
+              onChange={(e) => setSettings({ ...settings, template: e.target.value })}
+            />
+            <p className="text-xs text-muted-foreground">
+              Use <code>{'{{title}}'}</code>, <code>{'{{link}}'}</code>, <code>{'{{feed}}'}</code> and <code>{'{{summary}}'}</code>, which lists the [FEATURE] and [FIXED] points.
+            </p>
+            <pre className="text-xs whitespace-pre-wrap rounded-md bg-card/50 p-3 text-muted-foreground">
+              {renderChatMessage(settings.template, SAMPLE_CHAT_ITEM, 'Example Feed')}
+            </pre>
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="webhook-enabled">Enabled</Label>
+            <Switch
+              id="webhook-enabled"
+              checked={settings.enabled}
+              onCheckedChange={(enabled) => setSettings({ ...settings, enabled })}
+            />
+          </div>
+        </form>
+        <DialogFooter>
+          <Button variant="outline" onClick={handleTest} disabled={isTesting || isSaving || !settings.url} className="sm:mr-auto">
+            {isTesting ? <Loader2 className="mr-2 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+            Send Test Message
+          </Button>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>Cancel</Button>
+          <Button type="submit" form="chat-webhook" className="bg-accent hover:bg-accent/90" disabled={isSaving}>
+            {isSaving && <Loader2 className="mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,129 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { deleteChatWebhook, getChatWebhooks, saveChatWebhook, type ChatWebhook, type ChatWebhookSettings, type Feed } from '@/app/actions';
+import { ChatWebhookDialog } from '@/components/chat-webhook-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, MessageSquare, Pencil, PlusCircle, Trash2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+type ChatWebhooksProps = {
+  feeds: Feed[];
+  getIdToken: () => Promise<string | undefined>;
+};
+
+function describeScope(webhook: ChatWebhook, feeds: Feed[]): string {
+  if (webhook.feedIds.length === 0 && webhook.categories.length === 0) return 'All feeds';
+  const feedNames = webhook.feedIds.map(id => {
+    const feed = feeds.find(candidate => candidate.id === id);
+    return feed ? feed.name || feed.title || feed.url : 'a removed feed';
+  });
+  return [...webhook.categories, ...feedNames].join(', ');
+}
+
+export function ChatWebhooks({ feeds, getIdToken }: ChatWebhooksProps) {
+  const [webhooks, setWebhooks] = useState<ChatWebhook[]>([]);
+  const [editingWebhook, setEditingWebhook] = useState<ChatWebhook | 'new' | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    async function loadWebhooks() {
+      const result = await getChatWebhooks(await getIdToken() ?? '');
+      if (result.error) {
+        toast({ variant: "destructive", title: "Error", description: result.error });
+      }
+      setWebhooks(result.data ?? []);
+      setIsLoading(false);
+    }
+    loadWebhooks();
+  }, [getIdToken, toast]);
+
+  const handleSave = async (id: string | null, settings: ChatWebhookSettings) => {
+    const result = await saveChatWebhook(id, settings, await getIdToken() ?? '');
+    if (result.success) {
+      setWebhooks(
+        (result.webhook
+          ? [...webhooks, result.webhook]
+          : webhooks.map(webhook => (webhook.id === id ? { ...webhook, ...settings } : webhook))
+        ).sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setEditingWebhook(null);
+      toast({ title: "Success", description: "Webhook saved." });
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.error || "Failed to save the webhook." });
+    }
+  };
+
+  const handleRemove = async (webhookToRemove: ChatWebhook) => {
+    if (isSaving) return;
+    setIsSaving(true);
+    const result = await deleteChatWebhook(webhookToRemove.id, await getIdToken() ?? '');
+    if (result.success) {
+      setWebhooks(webhooks.filter(webhook => webhook.id !== webhookToRemove.id));
+      toast({ title: "Success", description: `Webhook "${webhookToRemove.name}" removed.` });
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.error || "Failed to remove the webhook." });
+    }
+    setIsSaving(false);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {webhooks.length === 0 ? (
+        <p className="text-muted-foreground text-center py-4">No chat webhooks added yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {webhooks.map(webhook => (
+            <li key={webhook.id} className="flex items-center justify-between gap-4 p-3 bg-card rounded-md border border-primary/20">
+              <div className="flex items-center gap-3 min-w-0">
+                <MessageSquare className="h-4 w-4 shrink-0 text-accent" />
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium text-foreground truncate">{webhook.name}</p>
+                    {!webhook.enabled && <Badge variant="secondary">Paused</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {describeScope(webhook, feeds)}
+                    {webhook.lastDeliveredAt && ` · last posted ${formatDistanceToNow(new Date(webhook.lastDeliveredAt), { addSuffix: true })}`}
+                  </p>
+                  {webhook.lastError && <p className="text-xs text-destructive truncate">{webhook.lastError}</p>}
+                </div>
+              </div>
+              <div className="flex shrink-0">
+                <Button variant="ghost" size="icon" onClick={() => setEditingWebhook(webhook)} disabled={isSaving} aria-label={`Edit ${webhook.name}`}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => handleRemove(webhook)} disabled={isSaving} aria-label={`Remove ${webhook.name}`}>
+                  <Trash2 className="h-4 w-4 text-destructive/80 hover:text-destructive" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      <Button variant="outline" onClick={() => setEditingWebhook('new')} disabled={isSaving}>
+        <PlusCircle className="mr-2 h-4 w-4" />
+        Add Webhook
+      </Button>
+      <ChatWebhookDialog
+        webhook={editingWebhook}
+        feeds={feeds}
+        getIdToken={getIdToken}
+        onOpenChange={(open) => !open && setEditingWebhook(null)}
+        onSave={handleSave}
+      />
+    </div>
+  );
+}
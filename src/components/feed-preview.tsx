@@ -0,0 +1,60 @@
+import type { FeedPreview as FeedPreviewData } from '@/app/actions';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { format } from 'date-fns';
+
+const FORMAT_LABELS: Record<FeedPreviewData['format'], string> = {
+  rss2: 'RSS 2.0',
+  rss1: 'RSS 1.0 (RDF)',
+  atom: 'Atom 1.0',
+  json: 'JSON Feed',
+};
+
+type FeedPreviewProps = {
+  preview: FeedPreviewData;
+  children?: React.ReactNode;
+};
+
+export function FeedPreview({ preview, children }: FeedPreviewProps) {
+  return (
+    <Card className="bg-card/80 border-primary/20">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Badge>{FORMAT_LABELS[preview.format]}</Badge>
+          <span className="text-sm text-muted-foreground">
+            {preview.itemCount} {preview.itemCount === 1 ? 'item' : 'items'}
+          </span>
+        </div>
+        <CardTitle className="font-headline text-xl pt-2">{preview.title ?? 'Untitled feed'}</CardTitle>
+        {preview.siteUrl && <CardDescription className="truncate">{preview.siteUrl}</CardDescription>}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {preview.items.length === 0 ? (
+          <p className="text-sm text-muted-foreground">The feed parsed correctly but has no items with a title.</p>
+        ) : (
+          <ul className="space-y-4">
+            {preview.items.map((item, index) => {
+              const date = new Date(item.pubDate);
+              return (
+                <li key={`${item.link}-${index}`} className="border-l-2 border-accent/50 pl-3">
+                  <p className="font-headline font-semibold">{item.title}</p>
+                  {!isNaN(date.getTime()) && (
+                    <p className="text-xs text-muted-foreground">{format(date, 'MMM d, yyyy')}</p>
+                  )}
+                  {item.summary && item.summary.length > 0 && (
+                    <ul className="mt-2 space-y-1 text-sm text-foreground/80 list-disc pl-4">
+                      {item.summary.map((point, pointIndex) => (
+                        <li key={pointIndex}>{point}</li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        {children}
+      </CardContent>
+    </Card>
+  );
+}
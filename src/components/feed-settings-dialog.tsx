@@ -0,0 +1,123 @@
+'use client';
+
+import { useEffect, useState, type FormEvent } from 'react';
+import type { Feed, FeedSettings } from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Loader2 } from 'lucide-react';
+
+const POLL_INTERVALS = [
+  { minutes: 15, label: 'Every 15 minutes' },
+  { minutes: 30, label: 'Every 30 minutes' },
+  { minutes: 60, label: 'Every hour' },
+  { minutes: 180, label: 'Every 3 hours' },
+  { minutes: 360, label: 'Every 6 hours' },
+  { minutes: 1440, label: 'Once a day' },
+];
+
+type FeedSettingsDialogProps = {
+  feed: Feed | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (feed: Feed, settings: FeedSettings) => Promise<void>;
+};
+
+export function FeedSettingsDialog({ feed, onOpenChange, onSave }: FeedSettingsDialogProps) {
+  const [settings, setSettings] = useState<FeedSettings | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (feed) {
+      const { name, category, enabled, pollIntervalMinutes } = feed;
+      setSettings({ name, category, enabled, pollIntervalMinutes });
+    }
+  }, [feed]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!feed || !settings) return;
+    setIsSaving(true);
+    await onSave(feed, settings);
+    setIsSaving(false);
+  };
+
+  const intervals = POLL_INTERVALS.some(i => i.minutes === settings?.pollIntervalMinutes)
+    ? POLL_INTERVALS
+    : [...POLL_INTERVALS, { minutes: settings?.pollIntervalMinutes ?? 60, label: `Every ${settings?.pollIntervalMinutes} minutes` }];
+
+  return (
+    <Dialog open={!!feed} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit Feed</DialogTitle>
+          <DialogDescription className="break-all">{feed?.url}</DialogDescription>
+        </DialogHeader>
+        {feed && settings && (
+          <form id="feed-settings" onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="feed-name">Display name</Label>
+              <Input
+                id="feed-name"
+                value={settings.name}
+                placeholder={feed.title ?? 'Defaults to the feed title'}
+                onChange={(e) => setSettings({ ...settings, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="feed-category">Category</Label>
+              <Input
+                id="feed-category"
+                value={settings.category}
+                placeholder="e.g. Developer Tools"
+                onChange={(e) => setSettings({ ...settings, category: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="feed-interval">Poll interval</Label>
+              <Select
+                value={String(settings.pollIntervalMinutes)}
+                onValueChange={(value) => setSettings({ ...settings, pollIntervalMinutes: Number(value) })}
+              >
+                <SelectTrigger id="feed-interval">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {intervals.map(interval => (
+                    <SelectItem key={interval.minutes} value={String(interval.minutes)}>
+                      {interval.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="feed-enabled">Enabled</Label>
+              <Switch
+                id="feed-enabled"
+                checked={settings.enabled}
+                onCheckedChange={(enabled) => setSettings({ ...settings, enabled })}
+              />
+            </div>
+            <dl className="text-sm text-muted-foreground space-y-1 border-t border-primary/10 pt-4">
+              <div className="flex gap-2"><dt className="font-medium">Feed title:</dt><dd>{feed.title ?? 'Not fetched yet'}</dd></div>
+              {feed.siteUrl && (
+                <div className="flex gap-2"><dt className="font-medium">Website:</dt><dd className="truncate">{feed.siteUrl}</dd></div>
+              )}
+              <div className="flex gap-2"><dt className="font-medium">Added by:</dt><dd>{feed.createdBy}</dd></div>
+            </dl>
+          </form>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>Cancel</Button>
+          <Button type="submit" form="feed-settings" className="bg-accent hover:bg-accent/90" disabled={isSaving}>
+            {isSaving && <Loader2 className="mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
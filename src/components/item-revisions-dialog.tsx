@@ -0,0 +1,135 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { diffArrays, diffWordsWithSpace } from 'diff';
+import { format } from 'date-fns';
+import { type ItemVersion, type RssItem, getItemVersions } from '@/app/actions';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+type ItemRevisionsDialogProps = {
+  /** The item whose edits to show, or null when closed. */
+  item: RssItem | null;
+  onOpenChange: (open: boolean) => void;
+  getIdToken: () => Promise<string | undefined>;
+};
+
+const ADDED = 'bg-green-500/15 text-green-700 dark:text-green-400';
+const REMOVED = 'bg-red-500/15 text-red-700 dark:text-red-400 line-through';
+
+function formatSeenAt(seenAt: string): string {
+  const date = new Date(seenAt);
+  return isNaN(date.getTime()) ? 'Unknown date' : format(date, 'MMM d, yyyy HH:mm');
+}
+
+// Feed HTML is untrusted, so it is diffed and shown as text rather than rendered.
+function HtmlDiff({ before, after }: { before: string; after: string }) {
+  return (
+    <pre className="max-h-96 overflow-auto whitespace-pre-wrap break-words rounded-md border p-3 font-code text-xs">
+      {diffWordsWithSpace(before, after).map((part, index) => (
+        <span key={index} className={cn(part.added && ADDED, part.removed && REMOVED)}>{part.value}</span>
+      ))}
+    </pre>
+  );
+}
+
+function SummaryDiff({ before, after }: { before: string[]; after: string[] }) {
+  const lines = diffArrays(before, after).flatMap(part => part.value.map(point => ({ point, added: part.added, removed: part.removed })));
+  if (lines.length === 0) {
+    return <p className="text-sm text-muted-foreground">Neither version has a summary.</p>;
+  }
+  return (
+    <ul className="space-y-2 text-sm">
+      {lines.map(({ point, added, removed }, index) => (
+        <li key={index} className={cn('rounded px-2 py-1', added && ADDED, removed && REMOVED)}>
+          <span className="mr-2 font-code">{added ? '+' : removed ? '−' : ' '}</span>
+          {point}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function ItemRevisionsDialog({ item, onOpenChange, getIdToken }: ItemRevisionsDialogProps) {
+  const [versions, setVersions] = useState<ItemVersion[]>([]);
+  // The index of the version shown as "after"; it is compared with the one before it.
+  const [selected, setSelected] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!item?.id) return;
+    const itemId = item.id;
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      setVersions([]);
+      const { data, error: loadError } = await getItemVersions(itemId, await getIdToken() ?? '');
+      setVersions(data ?? []);
+      setSelected((data?.length ?? 1) - 1);
+      setError(loadError ?? null);
+      setIsLoading(false);
+    };
+    load();
+  }, [item, getIdToken]);
+
+  const before = versions[selected - 1];
+  const after = versions[selected];
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Edits to this release note</DialogTitle>
+          <DialogDescription>{item?.title}</DialogDescription>
+        </DialogHeader>
+        {isLoading && <Loader2 className="mx-auto h-8 w-8 animate-spin text-primary" />}
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {!isLoading && !error && versions.length < 2 && (
+          <p className="text-sm text-muted-foreground">No earlier versions of this item were kept.</p>
+        )}
+        {!isLoading && before && after && (
+          <div className="space-y-4">
+            {versions.length > 2 && (
+              <Select value={String(selected)} onValueChange={(value) => setSelected(Number(value))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.slice(1).map((version, index) => (
+                    <SelectItem key={index + 1} value={String(index + 1)}>
+                      Edit seen {formatSeenAt(version.seenAt)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Version from {formatSeenAt(before.seenAt)} compared with the version from {formatSeenAt(after.seenAt)}.
+            </p>
+            <Tabs defaultValue="summary">
+              <TabsList>
+                <TabsTrigger value="summary">Summary</TabsTrigger>
+                <TabsTrigger value="html">HTML</TabsTrigger>
+              </TabsList>
+              <TabsContent value="summary">
+                <SummaryDiff before={before.summary} after={after.summary} />
+              </TabsContent>
+              <TabsContent value="html">
+                <HtmlDiff before={before.html} after={after.html} />
+              </TabsContent>
+            </Tabs>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { OpmlFeed } from '@/lib/opml';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+
+type OpmlImportDialogProps = {
+  /** The new feeds found in the file; null while the dialog is closed. */
+  feeds: OpmlFeed[] | null;
+  duplicateCount: number;
+  onOpenChange: (open: boolean) => void;
+  onImport: (feeds: OpmlFeed[]) => Promise<void>;
+};
+
+export function OpmlImportDialog({ feeds, duplicateCount, onOpenChange, onImport }: OpmlImportDialogProps) {
+  const [selectedUrls, setSelectedUrls] = useState<Set<string>>(new Set());
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    setSelectedUrls(new Set(feeds?.map(feed => feed.url) ?? []));
+  }, [feeds]);
+
+  const toggle = (url: string, checked: boolean) => {
+    const next = new Set(selectedUrls);
+    if (checked) {
+      next.add(url);
+    } else {
+      next.delete(url);
+    }
+    setSelectedUrls(next);
+  };
+
+  const handleImport = async () => {
+    if (!feeds) return;
+    setIsImporting(true);
+    await onImport(feeds.filter(feed => selectedUrls.has(feed.url)));
+    setIsImporting(false);
+  };
+
+  return (
+    <Dialog open={!!feeds} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Feeds</DialogTitle>
+          <DialogDescription>
+            {feeds?.length ?? 0} new {feeds?.length === 1 ? 'feed' : 'feeds'} found.
+            {duplicateCount > 0 && ` ${duplicateCount} already in your list ${duplicateCount === 1 ? 'was' : 'were'} skipped.`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[50vh] overflow-y-auto pr-2">
+          <div className="space-y-2">
+            {feeds?.map(feed => (
+              <label key={feed.url} className="flex items-start gap-3 p-3 bg-card rounded-md border border-primary/20 cursor-pointer">
+                <Checkbox
+                  checked={selectedUrls.has(feed.url)}
+                  onCheckedChange={(checked) => toggle(feed.url, checked === true)}
+                  className="mt-1"
+                />
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium text-foreground truncate">{feed.title ?? feed.url}</p>
+                    {feed.category && <Badge variant="outline">{feed.category}</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">{feed.url}</p>
+                </div>
+              </label>
+            ))}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isImporting}>Cancel</Button>
+          <Button className="bg-accent hover:bg-accent/90" onClick={handleImport} disabled={isImporting || selectedUrls.size === 0}>
+            {isImporting && <Loader2 className="mr-2 animate-spin" />}
+            Import {selectedUrls.size} {selectedUrls.size === 1 ? 'feed' : 'feeds'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
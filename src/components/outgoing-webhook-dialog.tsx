@@ -0,0 +1,121 @@
+'use client';
+
+import { useEffect, useState, type FormEvent } from 'react';
+import type { OutgoingWebhook, OutgoingWebhookSettings, WebhookEvent } from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Loader2 } from 'lucide-react';
+
+const WEBHOOK_EVENTS: { event: WebhookEvent; description: string }[] = [
+  { event: 'item.created', description: 'A new item was stored' },
+  { event: 'item.updated', description: 'A stored item changed' },
+  { event: 'feed.failed', description: 'A feed could not be fetched or stored' },
+];
+
+const NEW_WEBHOOK: OutgoingWebhookSettings = {
+  name: '',
+  url: '',
+  events: WEBHOOK_EVENTS.map(({ event }) => event),
+  enabled: true,
+};
+
+type OutgoingWebhookDialogProps = {
+  /** The webhook to edit, `'new'` to add one, or null when closed. */
+  webhook: OutgoingWebhook | 'new' | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (id: string | null, settings: OutgoingWebhookSettings) => Promise<void>;
+};
+
+export function OutgoingWebhookDialog({ webhook, onOpenChange, onSave }: OutgoingWebhookDialogProps) {
+  const [settings, setSettings] = useState<OutgoingWebhookSettings>(NEW_WEBHOOK);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (webhook === 'new') {
+      setSettings(NEW_WEBHOOK);
+    } else if (webhook) {
+      const { name, url, events, enabled } = webhook;
+      setSettings({ name, url, events, enabled });
+    }
+  }, [webhook]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!webhook) return;
+    setIsSaving(true);
+    await onSave(webhook === 'new' ? null : webhook.id, settings);
+    setIsSaving(false);
+  };
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setSettings({ ...settings, events: checked ? [...settings.events, event] : settings.events.filter(candidate => candidate !== event) });
+  };
+
+  return (
+    <Dialog open={!!webhook} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{webhook === 'new' ? 'Add Webhook' : 'Edit Webhook'}</DialogTitle>
+          <DialogDescription>
+            Events are POSTed as JSON and signed with HMAC-SHA256, so the receiver can check they came from Brew News.
+          </DialogDescription>
+        </DialogHeader>
+        <form id="outgoing-webhook" onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="outgoing-webhook-name">Name</Label>
+            <Input
+              id="outgoing-webhook-name"
+              value={settings.name}
+              placeholder="e.g. Ticket automation"
+              onChange={(e) => setSettings({ ...settings, name: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="outgoing-webhook-url">Payload URL</Label>
+            <Input
+              id="outgoing-webhook-url"
+              type="url"
+              value={settings.url}
+              placeholder="https://example.com/hooks/brew-news"
+              onChange={(e) => setSettings({ ...settings, url: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Events</Label>
+            {WEBHOOK_EVENTS.map(({ event, description }) => (
+              <div key={event} className="flex items-center gap-2">
+                <Checkbox
+                  id={`outgoing-webhook-${event}`}
+                  checked={settings.events.includes(event)}
+                  onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                />
+                <Label htmlFor={`outgoing-webhook-${event}`} className="font-normal">
+                  <code>{event}</code> <span className="text-muted-foreground">· {description}</span>
+                </Label>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="outgoing-webhook-enabled">Enabled</Label>
+            <Switch
+              id="outgoing-webhook-enabled"
+              checked={settings.enabled}
+              onCheckedChange={(enabled) => setSettings({ ...settings, enabled })}
+            />
+          </div>
+        </form>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>Cancel</Button>
+          <Button type="submit" form="outgoing-webhook" className="bg-accent hover:bg-accent/90" disabled={isSaving}>
+            {isSaving && <Loader2 className="mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
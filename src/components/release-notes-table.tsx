@@ -1,4 +1,4 @@
-import type { RssItem } from '@/app/actions';
+import type { ItemSource, RssItem } from '@/app/actions';
 import {
   Table,
   TableBody,
@@ -11,36 +11,25 @@ import { Badge } from '@/components/ui/badge';
 import Link from 'next/link';
 import { format } from 'date-fns';
 import { LinkIcon } from 'lucide-react';
+import { parseSummary } from '@/lib/summary-format';
 
 type ReleaseNotesTableProps = {
   items: RssItem[];
+  /** Display names of the subscribed feeds, keyed by feed URL. */
+  feedNames: Record<string, string>;
+  /** Called when the "Updated" badge of an edited item is clicked. */
+  onShowEdits: (item: RssItem) => void;
 };
 
-function parseSummary(summary: string) {
-  const match = summary.match(/^\[(.*?)]\s*(.*)/);
-  if (match) {
-    const type = match[1].charAt(0).toUpperCase() + match[1].slice(1).toLowerCase();
-    let badgeVariant: "default" | "secondary" | "destructive" | "outline" = "outline";
-    const lowerType = type.toLowerCase();
-
-    if (lowerType === 'feature') {
-      badgeVariant = 'default';
-    } else if (lowerType === 'fixed') {
-      badgeVariant = 'secondary';
-    }
-    
-    return {
-      type: type,
-      description: match[2],
-      variant: badgeVariant,
-    };
-  }
-  return { type: null, description: summary, variant: 'outline' as const };
+// Summary points are plain text written by the model from untrusted feed content,
+// so they are escaped before the product names are wrapped in markup.
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
 }
 
 function highlightProduct(text: string) {
   const products = ['Gemini Code Assist Standard and Enterprise Edition', 'Gemini Code Assist', 'Gemini', 'VS Code', 'IntelliJ'];
-  let highlightedText = text;
+  let highlightedText = escapeHtml(text);
   products.forEach(product => {
     const regex = new RegExp(`\\b(${product})\\b`, 'gi');
     highlightedText = highlightedText.replace(regex, `<strong class="text-accent font-semibold">$1</strong>`);
@@ -48,8 +37,12 @@ function highlightProduct(text: string) {
   return { __html: highlightedText };
 }
 
+function itemSources(item: RssItem): ItemSource[] {
+  return item.sources ?? (item.feedUrl ? [{ feedUrl: item.feedUrl, link: item.link }] : []);
+}
+
 
-export function ReleaseNotesTable({ items }: ReleaseNotesTableProps) {
+export function ReleaseNotesTable({ items, feedNames, onShowEdits }: ReleaseNotesTableProps) {
   if (items.length === 0) {
     return null;
   }
@@ -77,17 +70,36 @@ export function ReleaseNotesTable({ items }: ReleaseNotesTableProps) {
             } catch (e) {}
 
             const hasSummary = item.summary && item.summary.length > 0 && item.summary.join('').trim() !== '';
+            const sources = itemSources(item).filter(source => feedNames[source.feedUrl]);
 
             return (
-              <TableRow key={`${item.link}-${index}`} className="border-primary/20">
+              <TableRow key={item.id ?? `${item.link}-${index}`} className="border-primary/20">
                 <TableCell className="font-medium text-muted-foreground align-top pt-4">
                   {publicationDate ? format(publicationDate, 'MMM d, yyyy') : 'N/A'}
+                  {item.updatedAt && item.id && (
+                    <button type="button" onClick={() => onShowEdits(item)} className="block mt-1" title={`Edited by the publisher on ${format(new Date(item.updatedAt), 'MMM d, yyyy')}`}>
+                      <Badge variant="outline" className="cursor-pointer hover:border-accent">Updated</Badge>
+                    </button>
+                  )}
                 </TableCell>
                 <TableCell className="font-headline align-top pt-4">
                   <Link href={item.link} target="_blank" rel="noopener noreferrer" className="hover:text-accent transition-colors">
                     {item.title}
                     <LinkIcon className="ml-1 h-3 w-3 inline-block" />
                   </Link>
+                  {sources.length > 0 && (
+                    <p className="font-body text-xs text-muted-foreground mt-1">
+                      via{' '}
+                      {sources.map((source, sourceIndex) => (
+                        <span key={source.feedUrl}>
+                          {sourceIndex > 0 && ', '}
+                          <Link href={source.link} target="_blank" rel="noopener noreferrer" className="hover:text-accent transition-colors">
+                            {feedNames[source.feedUrl]}
+                          </Link>
+                        </span>
+                      ))}
+                    </p>
+                  )}
                 </TableCell>
                 <TableCell className="pt-4">
                   {hasSummary ? (
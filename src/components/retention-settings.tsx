@@ -0,0 +1,75 @@
+'use client';
+
+import { useEffect, useState, type FormEvent } from 'react';
+import { getIngestionSettings, saveIngestionSettings } from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+
+type RetentionSettingsProps = {
+  getIdToken: () => Promise<string | undefined>;
+};
+
+export function RetentionSettings({ getIdToken }: RetentionSettingsProps) {
+  const [retentionDays, setRetentionDays] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    async function loadIngestionSettings() {
+      const result = await getIngestionSettings(await getIdToken() ?? '');
+      if (result.data) {
+        setRetentionDays(String(result.data.retentionDays));
+      } else {
+        toast({ variant: "destructive", title: "Error", description: result.error });
+      }
+      setIsLoading(false);
+    }
+    loadIngestionSettings();
+  }, [getIdToken, toast]);
+
+  const handleSave = async (e: FormEvent) => {
+    e.preventDefault();
+    if (isSaving) return;
+    setIsSaving(true);
+    const result = await saveIngestionSettings({ retentionDays: Number(retentionDays) }, await getIdToken() ?? '');
+    if (result.success) {
+      toast({ title: "Success", description: "Retention saved. Older items are deleted on the next ingestion run." });
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.error || "Failed to save the retention." });
+    }
+    setIsSaving(false);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSave} className="space-y-2">
+      <Label htmlFor="retention-days">Keep items published in the last</Label>
+      <div className="flex gap-2 items-center">
+        <Input
+          id="retention-days"
+          type="number"
+          min={1}
+          max={365}
+          value={retentionDays}
+          onChange={(e) => setRetentionDays(e.target.value)}
+          disabled={isSaving}
+          className="w-32 bg-card/80 border-primary/30"
+        />
+        <span className="text-sm text-muted-foreground flex-grow">days</span>
+        <Button type="submit" variant="outline" disabled={isSaving || !retentionDays}>Save</Button>
+      </div>
+      <p className="text-xs text-muted-foreground">Older items are skipped when a feed is fetched, and stored items are deleted with their edit history once they pass this age.</p>
+    </form>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getFeedToken, resetFeedToken } from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Copy, Loader2 } from 'lucide-react';
+
+const ALL_CATEGORIES = '__all__';
+
+type SubscribeDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  getIdToken: () => Promise<string | undefined>;
+  /** The categories of the current feeds, offered as filters. */
+  categories: string[];
+};
+
+export function SubscribeDialog({ open, onOpenChange, getIdToken, categories }: SubscribeDialogProps) {
+  const [token, setToken] = useState<string | null>(null);
+  const [category, setCategory] = useState(ALL_CATEGORIES);
+  const [isResetting, setIsResetting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open || token) return;
+    async function loadToken() {
+      const result = await getFeedToken(await getIdToken() ?? '');
+      if (result.token) {
+        setToken(result.token);
+      } else {
+        toast({ variant: "destructive", title: "Error", description: result.error });
+      }
+    }
+    loadToken();
+  }, [open, token, getIdToken, toast]);
+
+  const feedUrl = (path: string) => {
+    const url = new URL(path, window.location.origin);
+    url.searchParams.set('token', token ?? '');
+    if (category !== ALL_CATEGORIES) url.searchParams.set('category', category);
+    return url.href;
+  };
+
+  const handleCopy = async (url: string) => {
+    await navigator.clipboard.writeText(url);
+    toast({ title: "Copied", description: "Paste the link into your feed reader." });
+  };
+
+  const handleReset = async () => {
+    setIsResetting(true);
+    const result = await resetFeedToken(await getIdToken() ?? '');
+    if (result.token) {
+      setToken(result.token);
+      toast({ title: "Success", description: "Your old subscription links no longer work." });
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.error || "Failed to reset the link." });
+    }
+    setIsResetting(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Subscribe in a Feed Reader</DialogTitle>
+          <DialogDescription>
+            These links are personal. Anyone who has them can read your Brew News feed.
+          </DialogDescription>
+        </DialogHeader>
+        {!token ? (
+          <div className="flex justify-center items-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {categories.length > 0 && (
+              <div className="space-y-2">
+                <Label htmlFor="subscribe-category">Category</Label>
+                <Select value={category} onValueChange={setCategory}>
+                  <SelectTrigger id="subscribe-category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                    {categories.map(name => (
+                      <SelectItem key={name} value={name}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {[{ label: 'RSS', path: '/feed.xml' }, { label: 'Atom', path: '/feed.atom' }].map(({ label, path }) => (
+              <div key={path} className="space-y-2">
+                <Label htmlFor={`subscribe-${label}`}>{label}</Label>
+                <div className="flex gap-2">
+                  <Input id={`subscribe-${label}`} readOnly value={feedUrl(path)} className="flex-grow font-mono text-xs" onFocus={(e) => e.target.select()} />
+                  <Button variant="outline" size="icon" onClick={() => handleCopy(feedUrl(path))} aria-label={`Copy the ${label} link`}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={handleReset} disabled={!token || isResetting}>
+            {isResetting && <Loader2 className="mr-2 animate-spin" />}
+            Reset Links
+          </Button>
+          <Button onClick={() => onOpenChange(false)}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import { format, subDays } from 'date-fns';
+import type { DateRange } from 'react-day-picker';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { ItemGrouping, TimeWindow } from '@/lib/item-grouping';
+import { CalendarIcon } from 'lucide-react';
+
+const PRESET_DAYS = [7, 14, 30, 90];
+
+const GROUPINGS: { grouping: ItemGrouping; label: string }[] = [
+  { grouping: 'week', label: 'By week' },
+  { grouping: 'month', label: 'By month' },
+  { grouping: 'feed', label: 'By feed' },
+];
+
+type TimeWindowControlsProps = {
+  window: TimeWindow;
+  onWindowChange: (window: TimeWindow) => void;
+  grouping: ItemGrouping;
+  onGroupingChange: (grouping: ItemGrouping) => void;
+};
+
+export function TimeWindowControls({ window, onWindowChange, grouping, onGroupingChange }: TimeWindowControlsProps) {
+  const handlePresetChange = (value: string) => {
+    if (value === 'custom') {
+      // Start the custom range from the preset it replaces, so the list doesn't jump.
+      const now = new Date();
+      onWindowChange({ from: subDays(now, 'days' in window ? window.days : 14), to: now });
+    } else {
+      onWindowChange({ days: Number(value) });
+    }
+  };
+
+  const handleRangeSelect = (range: DateRange | undefined) => {
+    if (range?.from) {
+      onWindowChange({ from: range.from, to: range.to ?? range.from });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={'days' in window ? String(window.days) : 'custom'} onValueChange={handlePresetChange}>
+        <SelectTrigger className="w-[160px] bg-card/80" aria-label="Time range">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {PRESET_DAYS.map(days => (
+            <SelectItem key={days} value={String(days)}>Last {days} days</SelectItem>
+          ))}
+          <SelectItem value="custom">Custom range</SelectItem>
+        </SelectContent>
+      </Select>
+      {!('days' in window) && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" className="bg-card/80 font-normal">
+              <CalendarIcon className="mr-2 h-4 w-4" />
+              {format(window.from, 'MMM d, yyyy')} – {format(window.to, 'MMM d, yyyy')}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="range"
+              numberOfMonths={2}
+              defaultMonth={window.from}
+              selected={{ from: window.from, to: window.to }}
+              onSelect={handleRangeSelect}
+              disabled={{ after: new Date() }}
+            />
+          </PopoverContent>
+        </Popover>
+      )}
+      <Select value={grouping} onValueChange={(value) => onGroupingChange(value as ItemGrouping)}>
+        <SelectTrigger className="w-[140px] bg-card/80" aria-label="Group items">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {GROUPINGS.map(({ grouping: value, label }) => (
+            <SelectItem key={value} value={value}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import type { WeeklyDigest as WeeklyDigestData } from '@/app/actions';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatDistanceToNow } from 'date-fns';
+import { Sparkles } from 'lucide-react';
+
+const GROUPS = [
+  { key: 'headlines', label: 'Headlines', variant: 'default' },
+  { key: 'breakingChanges', label: 'Breaking', variant: 'destructive' },
+  { key: 'notableFixes', label: 'Fixed', variant: 'secondary' },
+] as const;
+
+type WeeklyDigestProps = {
+  digest: WeeklyDigestData;
+  title?: string;
+};
+
+export function WeeklyDigest({ digest, title = 'Digest' }: WeeklyDigestProps) {
+  return (
+    <Card className="mb-6 bg-card/80 border-accent/40">
+      <CardHeader>
+        <CardTitle className="font-headline text-xl flex items-center gap-2">
+          <Sparkles className="h-5 w-5 text-accent" />
+          {title}
+        </CardTitle>
+        <CardDescription>
+          Written from {digest.itemCount} {digest.itemCount === 1 ? 'release note' : 'release notes'}, {formatDistanceToNow(new Date(digest.generatedAt), { addSuffix: true })}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-foreground/90">{digest.overview}</p>
+        {digest.products.length > 0 && (
+          <div className="grid gap-4 md:grid-cols-2">
+            {digest.products.map(product => (
+              <div key={product.product} className="border-l-2 border-accent/50 pl-3">
+                <p className="font-headline font-semibold mb-2">{product.product}</p>
+                <ul className="space-y-1 text-sm">
+                  {GROUPS.flatMap(group => product[group.key].map((entry, index) => (
+                    <li key={`${group.key}-${index}`} className="flex items-start gap-2">
+                      <Badge variant={group.variant} className="shrink-0">{group.label}</Badge>
+                      <span>{entry}</span>
+                    </li>
+                  )))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,24 +1,30 @@
 'use client';
 
-import { createContext, useContext, useEffect, useState, type ReactNode } from 'react';
+import { createContext, useCallback, useContext, useEffect, useState, type ReactNode } from 'react';
 import { onAuthStateChanged, type User } from 'firebase/auth';
 import { app, db, auth } from '@/lib/firebase';
-import { doc, getDoc, setDoc } from 'firebase/firestore';
 import { useRouter } from 'next/navigation';
+import { registerUser } from '@/app/actions';
+import type { UserRole } from '@/lib/types';
 
 interface AuthContextType {
   user: User | null;
-  role: 'admin' | 'viewer' | null;
+  role: UserRole | null;
   loading: boolean;
+  /** Why the last sign-in was rejected, e.g. because the email domain is not allowed. */
+  accessError: string | null;
   signOut: () => Promise<void>;
+  /** A fresh Firebase ID token for authorizing server actions, or undefined when signed out. */
+  getIdToken: () => Promise<string | undefined>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
-  const [role, setRole] = useState<'admin' | 'viewer' | null>(null);
+  const [role, setRole] = useState<UserRole | null>(null);
   const [loading, setLoading] = useState(true);
+  const [accessError, setAccessError] = useState<string | null>(null);
   const router = useRouter();
 
   useEffect(() => {
@@ -29,17 +35,17 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
     const unsubscribe = onAuthStateChanged(auth, async (user) => {
       if (user) {
-        setUser(user);
-        const userDocRef = doc(db, 'users', user.uid);
-        const docSnap = await getDoc(userDocRef);
-        if (docSnap.exists()) {
-          setRole(docSnap.data().role);
-        } else {
-          // This case is handled by Google Sign-In and Sign-Up flows
-          // It's a fallback in case a user is authenticated but doesn't have a db record.
-          await setDoc(userDocRef, { role: 'viewer', email: user.email });
-          setRole('viewer');
+        setLoading(true);
+        // The server checks the allowlist and creates the user's document on first sign-in.
+        const result = await registerUser(await user.getIdToken());
+        if (!result.success) {
+          setAccessError(result.error ?? 'You are not allowed to sign in.');
+          await auth?.signOut();
+          return;
         }
+        setAccessError(null);
+        setUser(user);
+        setRole(result.role ?? 'viewer');
       } else {
         setUser(null);
         setRole(null);
@@ -56,8 +62,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     router.push('/login');
   };
 
+  // Stable across renders so pages can list it as a hook dependency.
+  const getIdToken = useCallback(async () => {
+    return auth?.currentUser?.getIdToken();
+  }, []);
+
   return (
-    <AuthContext.Provider value={{ user, role, loading, signOut }}>
+    <AuthContext.Provider value={{ user, role, loading, accessError, signOut, getIdToken }}>
       {children}
     </AuthContext.Provider>
   );
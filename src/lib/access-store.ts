@@ -0,0 +1,65 @@
+import { adminDb as db } from '@/lib/firebase-admin';
+import { addAuditEntry } from '@/lib/audit-log';
+import type { Actor } from '@/lib/user-store';
+import type { AccessSettings, Invite } from '@/lib/types';
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function emailDomain(email: string): string {
+  return normalizeEmail(email).split('@').pop() ?? '';
+}
+
+export async function getAccessSettings(): Promise<AccessSettings> {
+  if (!db) return { allowedDomains: [] };
+  const settingsSnap = await db.collection('settings').doc('access').get();
+  const allowedDomains: unknown = settingsSnap.data()?.allowedDomains;
+  return { allowedDomains: Array.isArray(allowedDomains) ? allowedDomains.filter((domain): domain is string => typeof domain === 'string') : [] };
+}
+
+export async function updateAllowedDomains(allowedDomains: string[], actor: Actor): Promise<void> {
+  if (!db) throw new Error('Firestore is not configured.');
+  const batch = db.batch();
+  batch.set(db.collection('settings').doc('access'), { allowedDomains }, { merge: true });
+  addAuditEntry(db, batch, { action: 'domains-changed', actorUid: actor.uid, actorEmail: actor.email, domains: allowedDomains });
+  await batch.commit();
+}
+
+export async function listInvites(): Promise<Invite[]> {
+  if (!db) return [];
+  const snapshot = await db.collection('invites').get();
+  return snapshot.docs.map(inviteDoc => inviteDoc.data() as Invite);
+}
+
+/** Invites are keyed by the normalized address so the rules can look them up from the sign-in token. */
+export async function createInvite(email: string, actor: Actor): Promise<Invite> {
+  if (!db) throw new Error('Firestore is not configured.');
+  const invite: Invite = { email: normalizeEmail(email), invitedBy: actor.email ?? actor.uid, createdAt: new Date().toISOString() };
+  const batch = db.batch();
+  batch.set(db.collection('invites').doc(invite.email), invite);
+  addAuditEntry(db, batch, { action: 'user-invited', actorUid: actor.uid, actorEmail: actor.email, targetEmail: invite.email });
+  await batch.commit();
+  return invite;
+}
+
+export async function deleteInvite(email: string, actor: Actor): Promise<void> {
+  if (!db) throw new Error('Firestore is not configured.');
+  const batch = db.batch();
+  batch.delete(db.collection('invites').doc(normalizeEmail(email)));
+  addAuditEntry(db, batch, { action: 'invite-revoked', actorUid: actor.uid, actorEmail: actor.email, targetEmail: normalizeEmail(email) });
+  await batch.commit();
+}
+
+/**
+ * Whether a verified address may sign in, either through its domain or an
+ * invite. firestore.rules repeats this check, so keep the two in sync.
+ */
+export async function isEmailAllowed(email: string): Promise<boolean> {
+  if (!db) return false;
+  const [{ allowedDomains }, inviteSnap] = await Promise.all([
+    getAccessSettings(),
+    db.collection('invites').doc(normalizeEmail(email)).get(),
+  ]);
+  return inviteSnap.exists || allowedDomains.includes(emailDomain(email));
+}
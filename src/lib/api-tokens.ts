@@ -0,0 +1,84 @@
+import { createHash, randomBytes } from 'crypto';
+import { differenceInMinutes } from 'date-fns';
+import { adminDb as db } from '@/lib/firebase-admin';
+import { findActiveUser, type ActiveUser } from '@/lib/user-store';
+import type { ApiToken } from '@/lib/types';
+
+// API tokens live in `apiTokens/{id}` with the owner's uid and a SHA-256 hash
+// of the secret; the secret itself is only shown once, when it is created.
+
+const TOKEN_PREFIX = 'bn_';
+
+// How stale lastUsedAt may get before a request refreshes it.
+const LAST_USED_RESOLUTION_MINUTES = 5;
+
+interface StoredApiToken extends Omit<ApiToken, 'id'> {
+  uid: string;
+  tokenHash: string;
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function toApiToken(id: string, { uid: _uid, tokenHash: _tokenHash, ...token }: StoredApiToken): ApiToken {
+  return { ...token, id };
+}
+
+export async function listApiTokens(uid: string): Promise<ApiToken[]> {
+  if (!db) return [];
+  const snapshot = await db.collection('apiTokens').where('uid', '==', uid).get();
+  return snapshot.docs
+    .map(tokenDoc => toApiToken(tokenDoc.id, tokenDoc.data() as StoredApiToken))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** Creates a token and returns its secret, which cannot be retrieved again. */
+export async function createApiToken(uid: string, name: string): Promise<{ token: string; apiToken: ApiToken }> {
+  if (!db) throw new Error('Firestore is not configured.');
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const stored: StoredApiToken = {
+    uid,
+    name,
+    prefix: token.slice(0, TOKEN_PREFIX.length + 6),
+    tokenHash: hashToken(token),
+    createdAt: new Date().toISOString(),
+  };
+  const ref = await db.collection('apiTokens').add(stored);
+  return { token, apiToken: toApiToken(ref.id, stored) };
+}
+
+/** Deletes one of the user's tokens. Returns false if it does not exist or belongs to someone else. */
+export async function revokeApiToken(uid: string, id: string): Promise<boolean> {
+  if (!db) throw new Error('Firestore is not configured.');
+  const ref = db.collection('apiTokens').doc(id);
+  const tokenSnap = await ref.get();
+  if (!tokenSnap.exists || tokenSnap.data()?.uid !== uid) return false;
+  await ref.delete();
+  return true;
+}
+
+/**
+ * Authenticates an `Authorization: Bearer <token>` header. Returns null when
+ * the header is missing, the token is unknown or revoked, or its owner has
+ * lost access.
+ */
+export async function authenticateApiRequest(request: Request): Promise<ActiveUser | null> {
+  if (!db) return null;
+  const token = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token?.startsWith(TOKEN_PREFIX)) return null;
+
+  const snapshot = await db.collection('apiTokens').where('tokenHash', '==', hashToken(token)).limit(1).get();
+  if (snapshot.empty) return null;
+  const tokenDoc = snapshot.docs[0];
+  const stored = tokenDoc.data() as StoredApiToken;
+
+  const user = await findActiveUser(stored.uid);
+  if (user && (!stored.lastUsedAt || differenceInMinutes(new Date(), new Date(stored.lastUsedAt)) >= LAST_USED_RESOLUTION_MINUTES)) {
+    // Recording usage is best-effort and must not fail the request.
+    tokenDoc.ref.update({ lastUsedAt: new Date().toISOString() }).catch(error => {
+      console.error("Error recording API token use:", error);
+    });
+  }
+  return user;
+}
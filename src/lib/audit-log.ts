@@ -0,0 +1,18 @@
+import type { Firestore, WriteBatch } from 'firebase-admin/firestore';
+import { adminDb as db, withoutUndefined } from '@/lib/firebase-admin';
+import type { AuditLogEntry } from '@/lib/types';
+
+/**
+ * Adds an audit entry to a batch, so the entry is only recorded if the change
+ * it describes is committed too.
+ */
+export function addAuditEntry(firestore: Firestore, batch: WriteBatch, entry: Omit<AuditLogEntry, 'id' | 'createdAt'>): void {
+  const ref = firestore.collection('auditLog').doc();
+  batch.set(ref, withoutUndefined({ ...entry, createdAt: new Date().toISOString() }));
+}
+
+export async function listAuditLog(limit = 100): Promise<AuditLogEntry[]> {
+  if (!db) return [];
+  const snapshot = await db.collection('auditLog').orderBy('createdAt', 'desc').limit(limit).get();
+  return snapshot.docs.map(entryDoc => ({ ...entryDoc.data(), id: entryDoc.id }) as AuditLogEntry);
+}
@@ -0,0 +1,31 @@
+import type { RssItem } from '@/lib/types';
+
+// Slack and Google Chat incoming webhooks both accept `{"text": "..."}` and the
+// same `<url|label>` link syntax, so one message format serves both.
+
+export const DEFAULT_CHAT_TEMPLATE = '*<{{link}}|{{title}}>* ({{feed}})\n{{summary}}';
+
+/** The item test messages and the template preview are rendered with. */
+export const SAMPLE_CHAT_ITEM: RssItem = {
+  title: 'Brew News test message',
+  link: 'https://example.com/releases/1.2.0',
+  pubDate: new Date(0).toUTCString(),
+  description: '',
+  summary: ['[FEATURE] New items from your feeds will be posted here.', '[FIXED] This is only a test.'],
+};
+
+// Slack and Google Chat treat these three characters as markup.
+export function escapeChatText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/** Fills in a message template for one item. Unknown placeholders are left as they are. */
+export function renderChatMessage(template: string, item: RssItem, feedName: string): string {
+  const values: Record<string, string> = {
+    title: escapeChatText(item.title),
+    link: item.link,
+    feed: escapeChatText(feedName),
+    summary: (item.summary ?? []).map(point => `• ${escapeChatText(point)}`).join('\n'),
+  };
+  return template.replace(/{{\s*(\w+)\s*}}/g, (placeholder, key: string) => values[key] ?? placeholder).trim();
+}
@@ -0,0 +1,124 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb as db } from '@/lib/firebase-admin';
+import { postWithRetries } from '@/lib/http-delivery';
+import { escapeChatText, renderChatMessage, SAMPLE_CHAT_ITEM } from '@/lib/chat-message';
+import type { ChatWebhook, ChatWebhookSettings, Feed, RssItem } from '@/lib/types';
+
+// Posting more than this per webhook and feed in one run floods the channel,
+// so the rest are folded into a single "and N more" message.
+const MAX_MESSAGES_PER_FEED = 10;
+
+export interface ChatDeliveryResult {
+  success: boolean;
+  attempts: number;
+  error?: string;
+}
+
+export interface ChatNotificationResult {
+  webhookId: string;
+  name: string;
+  messageCount: number;
+  error?: string;
+}
+
+/** New items found in one feed during an ingestion run. */
+export interface NewFeedItems {
+  feed: Feed;
+  items: RssItem[];
+}
+
+export async function listChatWebhooks(): Promise<ChatWebhook[]> {
+  if (!db) return [];
+  const snapshot = await db.collection('chatWebhooks').get();
+  return snapshot.docs
+    .map(webhookDoc => ({ ...webhookDoc.data(), id: webhookDoc.id }) as ChatWebhook)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function createChatWebhook(settings: ChatWebhookSettings, createdBy: string): Promise<ChatWebhook> {
+  if (!db) throw new Error('Firestore is not configured.');
+  const data: Omit<ChatWebhook, 'id'> = { ...settings, createdBy, createdAt: new Date().toISOString() };
+  const ref = await db.collection('chatWebhooks').add(data);
+  return { ...data, id: ref.id };
+}
+
+export async function updateChatWebhook(id: string, settings: ChatWebhookSettings): Promise<void> {
+  if (!db) throw new Error('Firestore is not configured.');
+  await db.collection('chatWebhooks').doc(id).update({ ...settings });
+}
+
+export async function deleteChatWebhook(id: string): Promise<void> {
+  if (!db) throw new Error('Firestore is not configured.');
+  await db.collection('chatWebhooks').doc(id).delete();
+}
+
+function feedDisplayName(feed: Pick<Feed, 'name' | 'title' | 'url'>): string {
+  return feed.name || feed.title || feed.url;
+}
+
+/** Posts one message, retrying network errors, rate limits and server errors with backoff. */
+export async function deliverChatMessage(url: string, text: string): Promise<ChatDeliveryResult> {
+  const { success, attempts, error } = await postWithRetries(url, JSON.stringify({ text }), { 'Content-Type': 'application/json; charset=utf-8' });
+  return { success, attempts: attempts.length, error };
+}
+
+function matchesWebhook(webhook: ChatWebhook, feed: Feed): boolean {
+  if (webhook.feedIds.length === 0 && webhook.categories.length === 0) return true;
+  return webhook.feedIds.includes(feed.id) || (!!feed.category && webhook.categories.includes(feed.category));
+}
+
+function messagesFor(webhook: ChatWebhook, { feed, items }: NewFeedItems): string[] {
+  const name = feedDisplayName(feed);
+  // Oldest first, so the channel reads in publication order.
+  const sorted = [...items].sort((a, b) => new Date(a.pubDate).getTime() - new Date(b.pubDate).getTime());
+  const messages = sorted.slice(-MAX_MESSAGES_PER_FEED).map(item => renderChatMessage(webhook.template, item, name));
+  const skipped = sorted.length - messages.length;
+  if (skipped > 0) {
+    messages.unshift(`…and ${skipped} older new ${skipped === 1 ? 'item' : 'items'} from ${escapeChatText(name)}.`);
+  }
+  return messages;
+}
+
+async function recordDelivery(id: string, error: string | undefined): Promise<void> {
+  if (!db) return;
+  await db.collection('chatWebhooks').doc(id).update(
+    error ? { lastError: error } : { lastDeliveredAt: new Date().toISOString(), lastError: FieldValue.delete() }
+  );
+}
+
+/**
+ * Posts new items to every enabled webhook that covers their feed. Each webhook
+ * receives its messages in order and stops at the first message that fails
+ * after retries, so a broken webhook does not hold up the others for long.
+ */
+export async function notifyNewItems(newItems: NewFeedItems[]): Promise<ChatNotificationResult[]> {
+  if (newItems.every(({ items }) => items.length === 0)) return [];
+  const webhooks = (await listChatWebhooks()).filter(webhook => webhook.enabled);
+
+  return Promise.all(webhooks.map(async (webhook): Promise<ChatNotificationResult> => {
+    const messages = newItems
+      .filter(({ feed, items }) => items.length > 0 && matchesWebhook(webhook, feed))
+      .flatMap(feedItems => messagesFor(webhook, feedItems));
+    if (messages.length === 0) {
+      return { webhookId: webhook.id, name: webhook.name, messageCount: 0 };
+    }
+
+    let messageCount = 0;
+    let error: string | undefined;
+    for (const text of messages) {
+      const delivery = await deliverChatMessage(webhook.url, text);
+      if (!delivery.success) {
+        error = delivery.error;
+        break;
+      }
+      messageCount++;
+    }
+    await recordDelivery(webhook.id, error).catch(err => console.error(`Error recording delivery for webhook ${webhook.id}:`, err));
+    return { webhookId: webhook.id, name: webhook.name, messageCount, error };
+  }));
+}
+
+/** Posts a sample item using the given settings, so admins can check a webhook before relying on it. */
+export async function sendTestChatMessage({ url, template }: Pick<ChatWebhookSettings, 'url' | 'template'>): Promise<ChatDeliveryResult> {
+  return deliverChatMessage(url, renderChatMessage(template, SAMPLE_CHAT_ITEM, 'Example Feed'));
+}
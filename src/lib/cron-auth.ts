@@ -0,0 +1,15 @@
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Checks a scheduler request for `Authorization: Bearer <CRON_SECRET>`.
+ * Always fails when no secret is configured so the endpoints are never open by accident.
+ */
+export function isAuthorizedCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return false;
+  }
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(request.headers.get('Authorization') ?? '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,101 @@
+import { createHash } from 'crypto';
+import { differenceInDays, format, startOfDay, subDays } from 'date-fns';
+import { generateWeeklyDigest } from '@/ai/flows/generate-weekly-digest-flow';
+import { adminDb as db } from '@/lib/firebase-admin';
+import { queryItems, type QueriedItem } from '@/lib/item-query';
+import type { DigestPeriod, WeeklyDigest } from '@/lib/types';
+
+// Bump this whenever generateWeeklyDigestPrompt changes so digests are rewritten.
+const DIGEST_PROMPT_VERSION = 1;
+
+// The newest items only, to keep the prompt a reasonable size.
+const MAX_DIGEST_ITEMS = 80;
+
+/** The same windows the home page uses for its "This Week" and "Last Week" sections. */
+export const DIGEST_PERIODS: { period: DigestPeriod; minDaysAgo: number; maxDaysAgo: number }[] = [
+  { period: 'this-week', minDaysAgo: 0, maxDaysAgo: 7 },
+  { period: 'last-week', minDaysAgo: 8, maxDaysAgo: 14 },
+];
+
+interface StoredDigest extends WeeklyDigest {
+  /** Identifies the items and prompt the digest was written from. */
+  sourceHash: string;
+}
+
+export interface DigestResult {
+  period: DigestPeriod;
+  status: 'generated' | 'unchanged' | 'empty' | 'failed';
+  error?: string;
+}
+
+function digestSourceHash(items: QueriedItem[]): string {
+  const source = items.map(({ id, item }) => [id, item.title, item.summary ?? []]);
+  return createHash('sha256').update(JSON.stringify([DIGEST_PROMPT_VERSION, source])).digest('hex');
+}
+
+async function refreshDigest(period: DigestPeriod, items: QueriedItem[], start: Date, end: Date): Promise<DigestResult> {
+  if (!db) return { period, status: 'unchanged' };
+  const ref = db.collection('digests').doc(period);
+  if (items.length === 0) {
+    await ref.delete();
+    return { period, status: 'empty' };
+  }
+
+  const digestItems = items.slice(0, MAX_DIGEST_ITEMS);
+  const sourceHash = digestSourceHash(digestItems);
+  const existing = await ref.get();
+  if (existing.exists && (existing.data() as StoredDigest).sourceHash === sourceHash) {
+    return { period, status: 'unchanged' };
+  }
+
+  const { overview, products } = await generateWeeklyDigest({
+    periodLabel: `${format(start, 'MMM d')} – ${format(end, 'MMM d, yyyy')}`,
+    items: digestItems.map(({ item, feed, publishedAt }) => ({
+      product: feed?.name || feed?.title || (item.feedUrl ? new URL(item.feedUrl).hostname : 'Other'),
+      title: item.title,
+      publishedAt: format(new Date(publishedAt), 'EEE MMM d'),
+      summary: item.summary ?? [],
+    })),
+  });
+  const digest: StoredDigest = {
+    period,
+    periodStart: start.toISOString(),
+    periodEnd: end.toISOString(),
+    overview,
+    products,
+    itemCount: items.length,
+    generatedAt: new Date().toISOString(),
+    sourceHash,
+  };
+  await ref.set(digest);
+  return { period, status: 'generated' };
+}
+
+/**
+ * Rewrites the digest for each period whose items have changed since it was
+ * last generated. Run after ingestion, so digests follow the stored items.
+ */
+export async function refreshWeeklyDigests(now = new Date()): Promise<DigestResult[]> {
+  // A day earlier than the oldest period, since differenceInDays rounds down; each period is filtered exactly below.
+  const oldestDaysAgo = Math.max(...DIGEST_PERIODS.map(({ maxDaysAgo }) => maxDaysAgo));
+  const items = await queryItems({ from: subDays(now, oldestDaysAgo + 1) });
+  return Promise.all(DIGEST_PERIODS.map(({ period, minDaysAgo, maxDaysAgo }) => {
+    const periodItems = items.filter(({ publishedAt }) => {
+      const daysAgo = differenceInDays(now, new Date(publishedAt));
+      return daysAgo >= minDaysAgo && daysAgo <= maxDaysAgo;
+    });
+    return refreshDigest(period, periodItems, startOfDay(subDays(now, maxDaysAgo)), subDays(now, minDaysAgo)).catch((error): DigestResult => {
+      console.error(`Error generating the ${period} digest:`, error);
+      return { period, status: 'failed', error: 'The digest could not be generated.' };
+    });
+  }));
+}
+
+export async function listWeeklyDigests(): Promise<WeeklyDigest[]> {
+  if (!db) return [];
+  const snapshot = await db.collection('digests').get();
+  return snapshot.docs.map(digestDoc => {
+    const { sourceHash: _sourceHash, ...digest } = digestDoc.data() as StoredDigest;
+    return digest;
+  });
+}
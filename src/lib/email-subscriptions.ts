@@ -0,0 +1,61 @@
+import { randomBytes } from 'crypto';
+import { adminDb as db } from '@/lib/firebase-admin';
+import type { EmailSubscription } from '@/lib/types';
+
+// Subscriptions live in `emailSubscriptions/{uid}`. Each carries a secret
+// token for the unsubscribe link, so unsubscribing does not need a sign-in.
+
+interface StoredSubscription extends EmailSubscription {
+  unsubscribeToken: string;
+}
+
+export interface ActiveSubscription extends StoredSubscription {
+  uid: string;
+}
+
+export async function getEmailSubscription(uid: string): Promise<EmailSubscription | null> {
+  if (!db) return null;
+  const subscriptionSnap = await db.collection('emailSubscriptions').doc(uid).get();
+  if (!subscriptionSnap.exists) return null;
+  const { unsubscribeToken: _unsubscribeToken, ...subscription } = subscriptionSnap.data() as StoredSubscription;
+  return subscription;
+}
+
+export async function setEmailSubscription(uid: string, email: string, enabled: boolean): Promise<EmailSubscription> {
+  if (!db) throw new Error('Firestore is not configured.');
+  const ref = db.collection('emailSubscriptions').doc(uid);
+  return db.runTransaction(async transaction => {
+    const existing = (await transaction.get(ref)).data() as StoredSubscription | undefined;
+    const subscription: StoredSubscription = {
+      ...existing,
+      email,
+      enabled,
+      updatedAt: new Date().toISOString(),
+      unsubscribeToken: existing?.unsubscribeToken ?? randomBytes(24).toString('base64url'),
+    };
+    transaction.set(ref, subscription);
+    const { unsubscribeToken: _unsubscribeToken, ...result } = subscription;
+    return result;
+  });
+}
+
+export async function listActiveSubscriptions(): Promise<ActiveSubscription[]> {
+  if (!db) return [];
+  const snapshot = await db.collection('emailSubscriptions').where('enabled', '==', true).get();
+  return snapshot.docs.map(subscriptionDoc => ({ ...(subscriptionDoc.data() as StoredSubscription), uid: subscriptionDoc.id }));
+}
+
+export async function markEmailSent(uid: string, sentAt: Date): Promise<void> {
+  if (!db) return;
+  await db.collection('emailSubscriptions').doc(uid).update({ lastSentAt: sentAt.toISOString() });
+}
+
+/** Turns off the subscription an unsubscribe link belongs to. Returns its address, or null for an unknown token. */
+export async function unsubscribeByToken(token: string): Promise<string | null> {
+  if (!db || !token) return null;
+  const snapshot = await db.collection('emailSubscriptions').where('unsubscribeToken', '==', token).limit(1).get();
+  if (snapshot.empty) return null;
+  const subscriptionDoc = snapshot.docs[0];
+  await subscriptionDoc.ref.update({ enabled: false, updatedAt: new Date().toISOString() });
+  return (subscriptionDoc.data() as StoredSubscription).email;
+}
@@ -0,0 +1,71 @@
+import { decodeHtmlEntities } from '@/lib/feed-parser';
+
+export interface DiscoveredFeed {
+  url: string;
+  title?: string;
+  type: string;
+}
+
+const FEED_TYPES = new Set(['application/rss+xml', 'application/atom+xml', 'application/feed+json']);
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s"'<>\/=]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+))/g;
+  for (const match of tag.matchAll(pattern)) {
+    attributes[match[1].toLowerCase()] = decodeHtmlEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+// The root of an RSS 2.0, Atom or RSS 1.0 (RDF) document, after any XML declaration, comments and doctype.
+const FEED_ROOT = /^(?:\s*(?:<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>]*>))*\s*<(?:[\w.-]+:)?(?:rss|feed|RDF)[\s>\/]/;
+
+/**
+ * Whether a response body is an HTML page rather than a feed document. A body
+ * with a feed root is a feed whatever its `Content-Type`, since servers often
+ * serve feeds as `text/html`.
+ */
+export function isHtmlDocument(body: string, contentType?: string | null): boolean {
+  const text = body.replace(/^\uFEFF/, '');
+  if (FEED_ROOT.test(text) || text.trimStart().startsWith('{')) return false;
+  const mimeType = contentType?.split(';')[0].trim().toLowerCase();
+  if (mimeType === 'text/html' || mimeType === 'application/xhtml+xml') return true;
+  return /^\s*(<!--[\s\S]*?-->\s*)*<(!doctype\s+html|html)[\s>]/i.test(body);
+}
+
+/**
+ * Finds the feeds an HTML page advertises with
+ * `<link rel="alternate" type="application/rss+xml" href="...">` and friends,
+ * resolving their URLs against the page (or its `<base href>`).
+ */
+export function discoverFeeds(html: string, pageUrl: string): DiscoveredFeed[] {
+  let baseUrl = pageUrl;
+  const baseTag = html.match(/<base\s[^>]*>/i);
+  if (baseTag) {
+    const href = parseAttributes(baseTag[0]).href;
+    try {
+      if (href) baseUrl = new URL(href, pageUrl).href;
+    } catch {
+      // Ignore an invalid <base> and resolve against the page itself.
+    }
+  }
+
+  const feeds: DiscoveredFeed[] = [];
+  for (const [tag] of html.matchAll(/<link\s[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    const rels = (attributes.rel ?? '').toLowerCase().split(/\s+/);
+    const type = (attributes.type ?? '').toLowerCase().trim();
+    if (!rels.includes('alternate') || !FEED_TYPES.has(type) || !attributes.href) continue;
+
+    let url: string;
+    try {
+      url = new URL(attributes.href.trim(), baseUrl).href;
+    } catch {
+      continue;
+    }
+    if (!feeds.some(feed => feed.url === url)) {
+      feeds.push({ url, type, title: attributes.title?.trim() || undefined });
+    }
+  }
+  return feeds;
+}
@@ -0,0 +1,96 @@
+import { FieldValue, type Firestore } from 'firebase-admin/firestore';
+import { adminDb as db, withoutUndefined } from '@/lib/firebase-admin';
+import type { Feed, FeedSettings } from '@/lib/types';
+
+export const DEFAULT_POLL_INTERVAL_MINUTES = 60;
+
+type FeedFetchState = Partial<Pick<Feed, 'title' | 'siteUrl' | 'faviconUrl' | 'etag' | 'lastModified' | 'lastFetchedAt' | 'lastSucceededAt' | 'lastError'>>;
+
+export function toDocId(value: string): string {
+  // Use a URL-safe base64 encoding as the document ID
+  return Buffer.from(value).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
+}
+
+export function newFeed(url: string, createdBy: string, settings: Partial<FeedSettings> = {}): Feed {
+  return {
+    id: toDocId(url),
+    url,
+    name: '',
+    category: '',
+    enabled: true,
+    pollIntervalMinutes: DEFAULT_POLL_INTERVAL_MINUTES,
+    createdBy,
+    createdAt: new Date().toISOString(),
+    ...settings,
+  };
+}
+
+/**
+ * Feeds used to be stored as a bare URL array in `feeds/default`. Split that
+ * document into one document per feed the first time the list is read.
+ */
+async function migrateLegacyFeedList(firestore: Firestore): Promise<void> {
+  const legacyRef = firestore.collection('feeds').doc('default');
+  const legacySnap = await legacyRef.get();
+  if (!legacySnap.exists) return;
+
+  const urls: unknown = legacySnap.data()?.urls;
+  const batch = firestore.batch();
+  if (Array.isArray(urls)) {
+    urls.filter((url): url is string => typeof url === 'string').forEach(url => {
+      const { id, ...feed } = newFeed(url, 'migration');
+      batch.set(firestore.collection('feeds').doc(id), feed);
+    });
+  }
+  batch.delete(legacyRef);
+  await batch.commit();
+}
+
+export async function listFeeds(): Promise<Feed[]> {
+  if (!db) return [];
+  await migrateLegacyFeedList(db);
+  const snapshot = await db.collection('feeds').get();
+  return snapshot.docs
+    .filter(feedDoc => typeof feedDoc.data().url === 'string')
+    .map(feedDoc => ({ ...feedDoc.data(), id: feedDoc.id }) as Feed);
+}
+
+export async function getFeed(id: string): Promise<Feed | null> {
+  if (!db) return null;
+  const feedSnap = await db.collection('feeds').doc(id).get();
+  return feedSnap.exists ? ({ ...feedSnap.data(), id: feedSnap.id } as Feed) : null;
+}
+
+export async function createFeed(feed: Feed): Promise<void> {
+  if (!db) throw new Error('Firestore is not configured.');
+  const { id, ...data } = feed;
+  await db.collection('feeds').doc(id).set(withoutUndefined(data));
+}
+
+export async function createFeeds(feeds: Feed[]): Promise<void> {
+  if (!db) throw new Error('Firestore is not configured.');
+  const firestore = db;
+  // Firestore batches are limited to 500 writes.
+  for (let start = 0; start < feeds.length; start += 500) {
+    const batch = firestore.batch();
+    feeds.slice(start, start + 500).forEach(({ id, ...data }) => batch.set(firestore.collection('feeds').doc(id), withoutUndefined(data)));
+    await batch.commit();
+  }
+}
+
+export async function updateFeedSettings(id: string, settings: FeedSettings): Promise<void> {
+  if (!db) throw new Error('Firestore is not configured.');
+  await db.collection('feeds').doc(id).update({ ...settings });
+}
+
+/** Records the outcome of a fetch. Fields set to undefined are removed from the document. */
+export async function updateFeedFetchState(id: string, state: FeedFetchState): Promise<void> {
+  if (!db) return;
+  const update = Object.fromEntries(Object.entries(state).map(([key, value]) => [key, value === undefined ? FieldValue.delete() : value]));
+  await db.collection('feeds').doc(id).update(update);
+}
+
+export async function deleteFeed(id: string): Promise<void> {
+  if (!db) throw new Error('Firestore is not configured.');
+  await db.collection('feeds').doc(id).delete();
+}
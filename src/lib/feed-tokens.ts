@@ -0,0 +1,44 @@
+import { randomBytes } from 'crypto';
+import { adminDb as db } from '@/lib/firebase-admin';
+import { findActiveUser, type ActiveUser } from '@/lib/user-store';
+
+// Feed readers cannot sign in, so each user gets a secret token to put in
+// their subscription URL instead. Tokens live in `feedTokens/{uid}`.
+
+function generateToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+/** Returns the user's feed token, creating one on first use. */
+export async function getOrCreateFeedToken(uid: string): Promise<string> {
+  if (!db) throw new Error('Firestore is not configured.');
+  const ref = db.collection('feedTokens').doc(uid);
+  return db.runTransaction(async transaction => {
+    const tokenSnap = await transaction.get(ref);
+    const existing: unknown = tokenSnap.data()?.token;
+    if (typeof existing === 'string') return existing;
+    const token = generateToken();
+    transaction.set(ref, { token, createdAt: new Date().toISOString() });
+    return token;
+  });
+}
+
+/** Replaces the user's feed token, so subscriptions using the old one stop working. */
+export async function rotateFeedToken(uid: string): Promise<string> {
+  if (!db) throw new Error('Firestore is not configured.');
+  const token = generateToken();
+  await db.collection('feedTokens').doc(uid).set({ token, createdAt: new Date().toISOString() });
+  return token;
+}
+
+/**
+ * Finds the user a feed token belongs to, or null if the token is unknown or
+ * the user has since been removed or lost access.
+ */
+export async function findFeedTokenUser(token: string): Promise<ActiveUser | null> {
+  if (!db || !token) return null;
+  const snapshot = await db.collection('feedTokens').where('token', '==', token).limit(1).get();
+  if (snapshot.empty) return null;
+
+  return findActiveUser(snapshot.docs[0].id);
+}
@@ -0,0 +1,129 @@
+import type { RssItem } from '@/lib/types';
+
+/** An item in an outgoing feed, with the source feed it was ingested from. */
+export interface OutgoingFeedItem extends RssItem {
+  /** The stored item's document ID, which its entry ID is built from. */
+  id: string;
+  sourceTitle?: string;
+  category?: string;
+}
+
+export interface OutgoingFeed {
+  /** A permanent identifier for the feed; must not contain the subscriber's token. */
+  id: string;
+  title: string;
+  description: string;
+  /** The web page the feed belongs to. */
+  siteUrl: string;
+  /** The URL the feed itself is served from. */
+  selfUrl: string;
+  /** The hostname entry IDs are minted under. It must not depend on the host a reader used. */
+  tagHost: string;
+  items: OutgoingFeedItem[];
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Control characters are not allowed in XML 1.0 documents.
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+// The date part of entry IDs. Changing it would make readers show every item as new.
+const TAG_DATE = '2026';
+
+/**
+ * A permanent `tag:` URI for an item. Links are not unique, since items
+ * without one point at their feed's site, and can change when a feed moves.
+ */
+function itemTagUri(feed: OutgoingFeed, item: OutgoingFeedItem): string {
+  return `tag:${feed.tagHost},${TAG_DATE}:items/${item.id}`;
+}
+
+function toDate(value: string | undefined): Date | null {
+  const date = value ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date : null;
+}
+
+/** The summary bullets as HTML, followed by a link to the original release note. */
+function itemContentHtml(item: OutgoingFeedItem): string {
+  const summary = item.summary && item.summary.length > 0
+    ? `<ul>${item.summary.map(point => `<li>${escapeXml(point)}</li>`).join('')}</ul>`
+    : '';
+  const source = item.sourceTitle ? ` on ${escapeXml(item.sourceTitle)}` : '';
+  return `${summary}<p><a href="${escapeXml(item.link)}">Read the full release note${source}</a></p>`;
+}
+
+export function buildRssFeed(feed: OutgoingFeed): string {
+  const items = feed.items.map(item => {
+    const published = toDate(item.pubDate);
+    return [
+      '    <item>',
+      `      <title>${escapeXml(item.title)}</title>`,
+      `      <link>${escapeXml(item.link)}</link>`,
+      `      <guid isPermaLink="false">${escapeXml(itemTagUri(feed, item))}</guid>`,
+      published ? `      <pubDate>${published.toUTCString()}</pubDate>` : null,
+      item.category ? `      <category>${escapeXml(item.category)}</category>` : null,
+      item.feedUrl ? `      <source url="${escapeXml(item.feedUrl)}">${escapeXml(item.sourceTitle ?? item.feedUrl)}</source>` : null,
+      `      <description>${escapeXml(itemContentHtml(item))}</description>`,
+      '    </item>',
+    ].filter((line): line is string => line !== null).join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.siteUrl)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    `    <atom:link href="${escapeXml(feed.selfUrl)}" rel="self" type="application/rss+xml"/>`,
+    `    <lastBuildDate>${new Date().toUTCString()}</lastBuildDate>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+export function buildAtomFeed(feed: OutgoingFeed): string {
+  const now = new Date().toISOString();
+  const entries = feed.items.map(item => {
+    const published = toDate(item.pubDate);
+    // lastSeenAt changes whenever ingestion sees the item again, so it would make readers show unchanged entries as updated.
+    const updated = published ?? toDate(item.firstSeenAt);
+    return [
+      '  <entry>',
+      `    <id>${escapeXml(itemTagUri(feed, item))}</id>`,
+      `    <title>${escapeXml(item.title)}</title>`,
+      `    <link rel="alternate" href="${escapeXml(item.link)}"/>`,
+      published ? `    <published>${published.toISOString()}</published>` : null,
+      `    <updated>${(updated ?? new Date()).toISOString()}</updated>`,
+      item.category ? `    <category term="${escapeXml(item.category)}"/>` : null,
+      item.feedUrl
+        ? `    <source><id>${escapeXml(item.feedUrl)}</id><title>${escapeXml(item.sourceTitle ?? item.feedUrl)}</title><link rel="self" href="${escapeXml(item.feedUrl)}"/></source>`
+        : null,
+      `    <content type="html">${escapeXml(itemContentHtml(item))}</content>`,
+      '  </entry>',
+    ].filter((line): line is string => line !== null).join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(feed.id)}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `  <link rel="alternate" href="${escapeXml(feed.siteUrl)}"/>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.selfUrl)}"/>`,
+    `  <updated>${now}</updated>`,
+    '  <author><name>Brew News</name></author>',
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,36 @@
+import { initializeApp, getApps, getApp, applicationDefault, type App } from 'firebase-admin/app';
+import { getAuth, type Auth } from 'firebase-admin/auth';
+import { getFirestore, type Firestore } from 'firebase-admin/firestore';
+
+// Server-side Firebase access. The Admin SDK bypasses the security rules, so
+// this module must only be imported from server code (actions, routes, scripts).
+// When FIRESTORE_EMULATOR_HOST / FIREBASE_AUTH_EMULATOR_HOST are set, the SDK
+// connects to the emulators instead of production.
+
+const projectId = process.env.FIREBASE_PROJECT_ID ?? process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+
+let adminApp: App | null = null;
+let adminDb: Firestore | null = null;
+let adminAuth: Auth | null = null;
+
+if (projectId) {
+  try {
+    adminApp = getApps().length > 0 ? getApp() : initializeApp({ credential: applicationDefault(), projectId });
+    adminDb = getFirestore(adminApp);
+    adminAuth = getAuth(adminApp);
+  } catch (e) {
+    console.error("Firebase Admin initialization failed:", e);
+    adminApp = null;
+    adminDb = null;
+    adminAuth = null;
+  }
+} else {
+  console.warn("Firebase projectId is not set in .env. Server-side Firestore features will be disabled.");
+}
+
+/** Firestore rejects undefined field values, so optional fields are omitted instead. */
+export function withoutUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+export { adminApp, adminDb, adminAuth };
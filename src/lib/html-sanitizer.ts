@@ -0,0 +1,97 @@
+import sanitizeHtml from 'sanitize-html';
+
+// Feed content comes from whoever runs the feed, so it is reduced to a small
+// set of formatting tags before it is stored or rendered with
+// dangerouslySetInnerHTML. Anything not listed here is dropped.
+
+const ALLOWED_TAGS = [
+  'p', 'br', 'hr', 'div', 'span',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'strong', 'b', 'em', 'i', 'u', 's', 'del', 'ins', 'mark', 'small', 'sub', 'sup',
+  'code', 'pre', 'kbd', 'samp', 'blockquote', 'q', 'cite', 'abbr',
+  'ul', 'ol', 'li', 'dl', 'dt', 'dd',
+  'a', 'img', 'figure', 'figcaption',
+  'table', 'caption', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td',
+  'details', 'summary',
+];
+
+// `target`, `rel`, `loading` and `referrerpolicy` are always overwritten by
+// transformTags below, which runs before attributes are checked.
+const ALLOWED_ATTRIBUTES: sanitizeHtml.IOptions['allowedAttributes'] = {
+  a: ['href', 'title', 'target', 'rel'],
+  img: ['src', 'alt', 'title', 'width', 'height', 'loading', 'referrerpolicy'],
+  abbr: ['title'],
+  ol: ['start'],
+  th: ['colspan', 'rowspan', 'scope'],
+  td: ['colspan', 'rowspan'],
+};
+
+// Elements whose text is dropped along with the element, rather than kept as plain text.
+const NON_TEXT_TAGS = ['script', 'style', 'noscript', 'textarea', 'option', 'iframe', 'object', 'embed', 'svg', 'math', 'template', 'form'];
+
+// Images this small are tracking pixels rather than content.
+const MAX_TRACKING_PIXEL_SIZE = 1;
+
+function isTrackingPixel(frame: sanitizeHtml.IFrame): boolean {
+  if (frame.tag !== 'img') return false;
+  const { width, height, src } = frame.attribs;
+  if (!src) return true;
+  return [width, height].some(size => size !== undefined && Number.parseInt(size, 10) <= MAX_TRACKING_PIXEL_SIZE);
+}
+
+/**
+ * Resolves a relative `href` or `src` against the content's base URL, so it
+ * points at the publisher's site rather than ours. Values that cannot be
+ * resolved are left for the scheme check to judge.
+ */
+function resolveAttribute(attribs: sanitizeHtml.Attributes, name: string, baseUrl: string | undefined): sanitizeHtml.Attributes {
+  const value = attribs[name]?.trim();
+  if (!value || !baseUrl || value.startsWith('#')) return attribs;
+  try {
+    return { ...attribs, [name]: new URL(value, baseUrl).href };
+  } catch {
+    return attribs;
+  }
+}
+
+function sanitizerOptions(baseUrl: string | undefined): sanitizeHtml.IOptions {
+  return {
+    allowedTags: ALLOWED_TAGS,
+    allowedAttributes: ALLOWED_ATTRIBUTES,
+    allowedSchemes: ['http', 'https', 'mailto'],
+    allowedSchemesByTag: { img: ['http', 'https'] },
+    allowProtocolRelative: false,
+    nonTextTags: NON_TEXT_TAGS,
+    exclusiveFilter: isTrackingPixel,
+    transformTags: {
+      // Links leave the app in a new tab without access to it, and without vouching for the target.
+      a: (tagName, attribs) => ({
+        tagName,
+        attribs: { ...resolveAttribute(attribs, 'href', baseUrl), target: '_blank', rel: 'noopener noreferrer nofollow ugc' },
+      }),
+      img: (tagName, attribs) => ({
+        tagName,
+        attribs: { ...resolveAttribute(attribs, 'src', baseUrl), loading: 'lazy', referrerpolicy: 'no-referrer' },
+      }),
+    },
+  };
+}
+
+/**
+ * Reduces untrusted feed HTML to the allowlisted tags and attributes. Relative
+ * links and image sources are resolved against `baseUrl`, usually the item's
+ * own link. Safe to run more than once.
+ */
+export function sanitizeFeedHtml(html: string, baseUrl?: string): string {
+  return sanitizeHtml(html, sanitizerOptions(baseUrl)).trim();
+}
+
+/** True for absolute http(s) URLs, the only item links the app will render. */
+export function isSafeLink(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
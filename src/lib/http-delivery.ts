@@ -0,0 +1,70 @@
+import type { WebhookDeliveryAttempt } from '@/lib/types';
+
+// Shared by the chat and outgoing webhooks: POSTs a body and retries network
+// errors, rate limits and server errors with exponential backoff.
+
+const MAX_ATTEMPTS = 3;
+
+// Longer waits than this are not worth holding up an ingestion run for.
+const MAX_RETRY_DELAY_SECONDS = 30;
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export interface DeliveryOutcome {
+  success: boolean;
+  attempts: WebhookDeliveryAttempt[];
+  /** Why the last attempt failed. */
+  error?: string;
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+function retryDelaySeconds(response: Response | null, attempt: number): number {
+  const retryAfter = Number(response?.headers.get('Retry-After'));
+  const seconds = Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : 2 ** (attempt - 1);
+  return Math.min(seconds, MAX_RETRY_DELAY_SECONDS);
+}
+
+export async function postWithRetries(url: string, body: string, headers: Record<string, string>): Promise<DeliveryOutcome> {
+  const attempts: WebhookDeliveryAttempt[] = [];
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const startedAt = Date.now();
+    let response: Response | null = null;
+    let error: string | undefined;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { 'User-Agent': 'BrewNews/1.0', ...headers },
+        body,
+        cache: 'no-store',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        error = `The webhook responded with status ${response.status}.`;
+      }
+    } catch (err) {
+      error = err instanceof Error && err.name === 'TimeoutError'
+        ? 'The webhook did not respond in time.'
+        : 'The webhook could not be reached.';
+    }
+    attempts.push({
+      attemptedAt: new Date(startedAt).toISOString(),
+      status: response?.status,
+      error,
+      durationMs: Date.now() - startedAt,
+    });
+
+    if (!error) {
+      return { success: true, attempts };
+    }
+    if (response && !isRetryable(response.status)) {
+      return { success: false, attempts, error };
+    }
+    if (attempt < MAX_ATTEMPTS) {
+      await new Promise(resolve => setTimeout(resolve, retryDelaySeconds(response, attempt) * 1000));
+    }
+  }
+  return { success: false, attempts, error: attempts[attempts.length - 1].error };
+}
@@ -0,0 +1,536 @@
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { differenceInDays, differenceInHours, differenceInMinutes, subDays } from 'date-fns';
+import type { DocumentReference, DocumentSnapshot, Firestore, QueryDocumentSnapshot, WriteBatch } from 'firebase-admin/firestore';
+import { adminDb as db, withoutUndefined } from '@/lib/firebase-admin';
+import { parseFeed, FeedParseError, FEED_ACCEPT_HEADER, type ParsedFeed, type ParsedFeedItem } from '@/lib/feed-parser';
+import { discoverFeeds, isHtmlDocument, type DiscoveredFeed } from '@/lib/feed-discovery';
+import { listFeeds, toDocId, updateFeedFetchState } from '@/lib/feed-store';
+import { getIngestionSettings } from '@/lib/ingestion-settings';
+import { publicationTime } from '@/lib/item-query';
+import { summarizeWithCache } from '@/lib/summary-cache';
+import { isSafeLink, sanitizeFeedHtml } from '@/lib/html-sanitizer';
+import { refreshWeeklyDigests, type DigestResult } from '@/lib/digest';
+import { notifyNewItems, type ChatNotificationResult, type NewFeedItems } from '@/lib/chat-webhooks';
+import { dispatchWebhookEvents, feedFailedEvent, itemEvent, type WebhookDispatchResult, type WebhookEventPayload } from '@/lib/outgoing-webhooks';
+import type { Feed, ItemRevision, ItemSource, RssItem } from '@/lib/types';
+
+export interface FetchFeedResult {
+  /** Items with their IDs set and their descriptions already sanitized. */
+  data?: RssItem[];
+  /** The feed's original HTML for each item, keyed by item ID. */
+  rawDescriptions?: Map<string, string>;
+  /** IDs of items whose feed gave no date. Their `pubDate` is the time of the fetch, which only sticks the first time they are stored. */
+  undated?: Set<string>;
+  error?: string;
+  notModified?: boolean;
+  feed?: Omit<ParsedFeed, 'items'>;
+  etag?: string;
+  lastModified?: string;
+  /** Feeds advertised by the page when the URL turned out to be a website rather than a feed. */
+  discovered?: DiscoveredFeed[];
+}
+
+export interface FeedIngestionResult {
+  feedId: string;
+  url: string;
+  status: 'updated' | 'not-modified' | 'failed';
+  itemCount: number;
+  /** Items that had not been stored before this run. */
+  newItemCount: number;
+  error?: string;
+}
+
+export interface IngestionResult {
+  startedAt: string;
+  finishedAt: string;
+  feeds: FeedIngestionResult[];
+  /** Stored items deleted for being older than the retention period. */
+  purgedItemCount: number;
+  digests: DigestResult[];
+  notifications: ChatNotificationResult[];
+  webhooks: WebhookDispatchResult[];
+}
+
+// What one feed's ingestion changed, for notifications and webhooks.
+interface FeedIngestionChanges {
+  result: FeedIngestionResult;
+  newItems: RssItem[];
+  updatedItems: RssItem[];
+}
+
+const urlSchema = z.string().url({ message: 'Please enter a valid URL.' });
+
+// How stale an unchanged item's lastSeenAt may get before it is rewritten.
+const LAST_SEEN_RESOLUTION_HOURS = 24;
+
+// Firestore allows at most 30 values in an `in` query.
+const MAX_IN_QUERY_VALUES = 30;
+
+function hashId(...parts: string[]): string {
+  return createHash('sha256').update(JSON.stringify(parts)).digest('base64url');
+}
+
+/**
+ * The document ID for an item. A `<guid>` or Atom `<id>` survives edits to the
+ * link and title, but is only promised to be unique within its feed. Items
+ * without one are keyed by their link, as all items used to be, and items with
+ * neither by a hash of their content.
+ */
+function itemId(feedUrl: string, item: ParsedFeedItem): string {
+  if (item.id) return hashId(feedUrl, item.id);
+  if (item.link) return toDocId(item.link);
+  return hashId(feedUrl, item.title, item.content);
+}
+
+/**
+ * Normalizes a link for comparing items across feeds: tracking parameters and
+ * a trailing slash are dropped. The fragment is kept, since release-note feeds
+ * often link each entry to its own anchor on a shared page.
+ */
+function canonicalLink(link: string): string {
+  try {
+    const url = new URL(link);
+    [...url.searchParams.keys()].filter(key => key.startsWith('utm_')).forEach(key => url.searchParams.delete(key));
+    url.pathname = url.pathname.replace(/\/+$/, '') || '/';
+    return url.href;
+  } catch {
+    return link;
+  }
+}
+
+/** Fetches and parses a feed without summarizing or storing anything. */
+export async function fetchFeed(url: string, { etag, lastModified }: Pick<Feed, 'etag' | 'lastModified'> = {}): Promise<FetchFeedResult> {
+  const validation = urlSchema.safeParse(url);
+  if (!validation.success) {
+    return { error: validation.error.errors[0].message };
+  }
+
+  try {
+    const headers: Record<string, string> = {
+      'User-Agent': 'BrewNews/1.0',
+      'Accept': FEED_ACCEPT_HEADER
+    };
+    if (etag) headers['If-None-Match'] = etag;
+    if (lastModified) headers['If-Modified-Since'] = lastModified;
+
+    // Bypass the Next.js data cache so the origin server sees our conditional headers.
+    const response = await fetch(url, { headers, cache: 'no-store' });
+
+    if (response.status === 304) {
+      return { notModified: true };
+    }
+
+    if (!response.ok) {
+      return { error: `Failed to fetch feed. Server responded with status: ${response.status}` };
+    }
+
+    const body = await response.text();
+    const contentType = response.headers.get('Content-Type');
+    const documentUrl = response.url || url;
+    if (isHtmlDocument(body, contentType)) {
+      const discovered = discoverFeeds(body, documentUrl);
+      return {
+        error: discovered.length > 0
+          ? `This is a web page rather than a feed, but it links to ${discovered.length === 1 ? 'a feed' : `${discovered.length} feeds`}.`
+          : 'This is a web page rather than a feed, and it does not link to any RSS, Atom or JSON feeds.',
+        discovered,
+      };
+    }
+    const feed = parseFeed(body, contentType, documentUrl);
+
+    // Links are rendered as hrefs, so anything but http(s) (such as javascript:) is dropped with its item.
+    // Items without a link of their own point at the feed's site instead.
+    const siteLink = feed.link && isSafeLink(feed.link) ? feed.link : documentUrl;
+    const sourceItems = feed.items.filter(item => item.title && (!item.link || isSafeLink(item.link)));
+    const rawDescriptions = new Map<string, string>();
+    const undated = new Set<string>();
+    const items: RssItem[] = sourceItems.map(item => {
+      const id = itemId(url, item);
+      rawDescriptions.set(id, item.content);
+      if (!item.published && !item.updated) undated.add(id);
+      const pubDate = item.published ?? item.updated ?? new Date().toUTCString();
+      return {
+        id,
+        guid: item.id,
+        title: item.title,
+        link: item.link ?? siteLink,
+        canonicalLink: item.link ? canonicalLink(item.link) : undefined,
+        pubDate,
+        publishedAt: publicationTime(pubDate),
+        description: sanitizeFeedHtml(item.content, item.contentBase ?? feed.link ?? documentUrl) || 'No description available.',
+        rawHash: createHash('sha256').update(item.content).digest('base64url'),
+        feedUrl: url,
+      };
+    });
+
+    const { items: _, ...metadata } = feed;
+    return {
+      data: items,
+      rawDescriptions,
+      undated,
+      feed: metadata,
+      etag: response.headers.get('ETag') ?? undefined,
+      lastModified: response.headers.get('Last-Modified') ?? undefined,
+    };
+  } catch (err) {
+    if (err instanceof FeedParseError) {
+      return { error: `The content does not appear to be a valid RSS, Atom or JSON feed. ${err.message}` };
+    }
+    console.error('Fetch RSS Error:', err);
+    if (err instanceof TypeError && err.message.includes('fetch failed')) {
+        return { error: 'Network error or invalid domain. Please check the URL and your connection.'};
+    }
+    return { error: 'An unexpected error occurred while processing the feed. It may not be a valid RSS, Atom or JSON Feed format.' };
+  }
+}
+
+function isWithinRetention(item: RssItem, now: Date, retentionDays: number): boolean {
+  const itemDate = new Date(item.pubDate);
+  if (isNaN(itemDate.getTime())) return false;
+  const daysAgo = differenceInDays(now, itemDate);
+  return daysAgo >= 0 && daysAgo <= retentionDays;
+}
+
+function hasContentChanged(stored: RssItem, item: RssItem): boolean {
+  const content = (i: RssItem) => JSON.stringify([i.title, i.link, i.description, i.pubDate, i.summary ?? [], i.feedUrl ?? null]);
+  return content(stored) !== content(item);
+}
+
+function normalizedTitle(title: string): string {
+  return title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+/**
+ * Whether an item from another feed announces the same release: it has the
+ * same link, and one title contains the other, since umbrella feeds often
+ * prefix titles with the product name.
+ */
+function isSameRelease(stored: RssItem, item: RssItem): boolean {
+  if (!stored.canonicalLink || stored.canonicalLink !== item.canonicalLink || stored.feedUrl === item.feedUrl) return false;
+  const [a, b] = [normalizedTitle(stored.title), normalizedTitle(item.title)];
+  return !!a && !!b && (a.includes(b) || b.includes(a));
+}
+
+function itemSources(item: RssItem): ItemSource[] {
+  return item.sources ?? (item.feedUrl ? [{ feedUrl: item.feedUrl, link: item.link }] : []);
+}
+
+/** Items used to be keyed by their link alone. Finds those stored documents for items that now have a different ID. */
+async function findLegacyItems(firestore: Firestore, items: RssItem[]): Promise<Map<string, DocumentSnapshot>> {
+  const candidates = items.filter(item => item.canonicalLink && item.id !== toDocId(item.link));
+  const refs = candidates.map(item => firestore.collection('feedItems').doc(toDocId(item.link)));
+  const snapshots = refs.length > 0 ? await firestore.getAll(...refs) : [];
+  return new Map(candidates.flatMap((item, index) => snapshots[index].exists ? [[item.id!, snapshots[index]] as const] : []));
+}
+
+/** Finds stored items that share a canonical link with any of the given items, keyed by that link. */
+async function findItemsByCanonicalLink(firestore: Firestore, items: RssItem[]): Promise<Map<string, QueryDocumentSnapshot[]>> {
+  const links = [...new Set(items.flatMap(item => item.canonicalLink ? [item.canonicalLink] : []))];
+  const found = new Map<string, QueryDocumentSnapshot[]>();
+  for (let start = 0; start < links.length; start += MAX_IN_QUERY_VALUES) {
+    const snapshot = await firestore.collection('feedItems').where('canonicalLink', 'in', links.slice(start, start + MAX_IN_QUERY_VALUES)).get();
+    snapshot.docs.forEach(itemDoc => {
+      const link = (itemDoc.data() as RssItem).canonicalLink!;
+      found.set(link, [...(found.get(link) ?? []), itemDoc]);
+    });
+  }
+  return found;
+}
+
+/**
+ * Stores new and changed items. The feed's unsanitized HTML for each of them is
+ * kept in `rawFeedItems` under the same ID, for auditing what was removed.
+ * When a feed edits an item's HTML, the version it replaces is kept in
+ * `itemRevisions` and the item is marked with `updatedAt`.
+ *
+ * An item that another feed has already stored is not stored again: the feed
+ * is added to that item's sources instead, and the item is not reported as new.
+ */
+async function storeFeedItems(items: RssItem[], rawDescriptions: Map<string, string>, undated: Set<string>): Promise<{success: boolean, error?: string, newItems?: RssItem[], updatedItems?: RssItem[]}> {
+  if (!db) {
+    // Silently fail if firestore is not configured.
+    // This allows the app to function without persistence.
+    return { success: true, newItems: [], updatedItems: [] };
+  }
+  const firestore = db;
+  const itemsCollection = firestore.collection('feedItems');
+  const rawItemsCollection = firestore.collection('rawFeedItems');
+  const revisionsCollection = firestore.collection('itemRevisions');
+  try {
+    const now = new Date();
+    const refs = items.map(item => itemsCollection.doc(item.id!));
+    const snapshots = refs.length > 0 ? await firestore.getAll(...refs) : [];
+    const unstored = items.filter((_, index) => !snapshots[index].exists);
+    const [legacyItems, linkedItems] = await Promise.all([
+      findLegacyItems(firestore, unstored),
+      findItemsByCanonicalLink(firestore, unstored),
+    ]);
+    const newItems: RssItem[] = [];
+    const updatedItems: RssItem[] = [];
+
+    // Firestore batches are limited to 500 writes, so start a new one as each fills up.
+    const batches = [firestore.batch()];
+    let pendingWrites = 0;
+    const queueWrite = (write: (batch: WriteBatch) => void) => {
+      if (pendingWrites === 500) {
+        batches.push(firestore.batch());
+        pendingWrites = 0;
+      }
+      write(batches[batches.length - 1]);
+      pendingWrites++;
+    };
+
+    const queueRawWrite = (item: RssItem, ref: DocumentReference) => {
+      const html = rawDescriptions.get(ref.id);
+      if (html === undefined) return;
+      queueWrite(batch => batch.set(rawItemsCollection.doc(ref.id), { link: item.link, feedUrl: item.feedUrl ?? null, html, fetchedAt: now.toISOString() }));
+    };
+
+    const claimedLegacyItems = new Set<string>();
+    items.forEach((fetched, index) => {
+      const ref = refs[index];
+      let snapshot: DocumentSnapshot = snapshots[index];
+      let moved = false;
+
+      if (!snapshot.exists) {
+        const legacy = legacyItems.get(ref.id);
+        if (legacy && !claimedLegacyItems.has(legacy.id)) {
+          // Move the document to the item's new ID, keeping when it was first seen.
+          claimedLegacyItems.add(legacy.id);
+          queueWrite(batch => batch.delete(legacy.ref));
+          snapshot = legacy;
+          moved = true;
+        }
+      }
+
+      if (!snapshot.exists) {
+        const item = fetched;
+        const { id: _, ...data } = item;
+        const duplicate = (linkedItems.get(item.canonicalLink ?? '') ?? []).find(candidate => isSameRelease(candidate.data() as RssItem, item));
+        if (duplicate) {
+          const sources = itemSources(duplicate.data() as RssItem);
+          if (!sources.some(source => source.feedUrl === item.feedUrl)) {
+            queueWrite(batch => batch.update(duplicate.ref, { sources: [...sources, { feedUrl: item.feedUrl!, link: item.link }], lastSeenAt: now.toISOString() }));
+          }
+          return;
+        }
+
+        newItems.push(item);
+        queueWrite(batch => batch.set(ref, withoutUndefined({ ...data, firstSeenAt: now.toISOString(), lastSeenAt: now.toISOString() })));
+        queueRawWrite(item, ref);
+        return;
+      }
+
+      const stored = snapshot.data() as RssItem;
+      // An undated item keeps the date it was first stored with, instead of moving to the time of every fetch.
+      const item = undated.has(ref.id) && stored.pubDate ? { ...fetched, pubDate: stored.pubDate, publishedAt: publicationTime(stored.pubDate) } : fetched;
+      const { id: _, ...data } = item;
+      const changed = hasContentChanged(stored, item);
+      // Items stored before canonical links, `publishedAt` or `rawHash` existed are rewritten so other feeds and queries can find them.
+      const outdated = (item.canonicalLink && stored.canonicalLink !== item.canonicalLink) || stored.publishedAt === undefined || stored.rawHash === undefined;
+      // The original HTML is compared, so a change to the sanitizer doesn't look like an edit. Items stored without a hash get one first.
+      const edited = stored.rawHash !== undefined && stored.rawHash !== item.rawHash;
+      if (changed || moved || outdated || edited) {
+        // Only changes made by the feed are reported, so a new sanitizer or summary prompt doesn't mark every item as updated.
+        if (edited || stored.title !== item.title || stored.link !== item.link) updatedItems.push(item);
+        if (edited) {
+          // Revisions are readable by every allowed user, so they keep the sanitized description rather than the feed's HTML.
+          const revision: Omit<ItemRevision, 'id'> = {
+            itemId: ref.id,
+            title: stored.title,
+            html: stored.description,
+            summary: stored.summary ?? [],
+            seenAt: stored.updatedAt ?? stored.firstSeenAt ?? now.toISOString(),
+            replacedAt: now.toISOString(),
+          };
+          queueWrite(batch => batch.set(revisionsCollection.doc(), revision));
+        }
+        queueWrite(batch => batch.set(ref, withoutUndefined({
+          ...stored,
+          ...data,
+          firstSeenAt: stored.firstSeenAt ?? now.toISOString(),
+          lastSeenAt: now.toISOString(),
+          updatedAt: edited ? now.toISOString() : stored.updatedAt,
+        })));
+        queueRawWrite(item, ref);
+      } else if (!stored.lastSeenAt || differenceInHours(now, new Date(stored.lastSeenAt)) >= LAST_SEEN_RESOLUTION_HOURS) {
+        // Unchanged items only have their sighting refreshed occasionally, so a refresh doesn't rewrite every document.
+        queueWrite(batch => batch.update(ref, { lastSeenAt: now.toISOString() }));
+      }
+    });
+
+    if (pendingWrites > 0) {
+      await Promise.all(batches.map(batch => batch.commit()));
+    }
+
+    return { success: true, newItems, updatedItems };
+  } catch (error) {
+    console.error("Error storing items to Firestore:", error);
+    return { success: false, error: "Could not save items to the database." };
+  }
+}
+
+// Feeds are ingested in parallel, but stored one at a time, so that two feeds
+// announcing the same release in one run are merged rather than both stored.
+let storeQueue: Promise<unknown> = Promise.resolve();
+
+function storeSerially<T>(store: () => Promise<T>): Promise<T> {
+  const stored = storeQueue.then(store);
+  storeQueue = stored.catch(() => undefined);
+  return stored;
+}
+
+function isDue(feed: Feed, now: Date): boolean {
+  if (!feed.lastFetchedAt) return true;
+  // A minute of slack keeps a feed polled on the scheduler's cadence from slipping a whole cycle.
+  return differenceInMinutes(now, new Date(feed.lastFetchedAt)) >= feed.pollIntervalMinutes - 1;
+}
+
+function faviconFor(feed: Feed, metadata: Omit<ParsedFeed, 'items'>): string | undefined {
+  if (metadata.icon) return metadata.icon;
+  try {
+    return new URL('/favicon.ico', metadata.link ?? feed.url).href;
+  } catch {
+    return undefined;
+  }
+}
+
+async function ingestFeed(feed: Feed, now: Date, retentionDays: number): Promise<FeedIngestionChanges> {
+  const { id: feedId, url } = feed;
+  const result = await fetchFeed(url, feed);
+  if (result.error) {
+    await updateFeedFetchState(feedId, { lastFetchedAt: now.toISOString(), lastError: result.error });
+    return { result: { feedId, url, status: 'failed', itemCount: 0, newItemCount: 0, error: result.error }, newItems: [], updatedItems: [] };
+  }
+  if (result.notModified) {
+    await updateFeedFetchState(feedId, { lastFetchedAt: now.toISOString(), lastSucceededAt: now.toISOString(), lastError: undefined });
+    return { result: { feedId, url, status: 'not-modified', itemCount: 0, newItemCount: 0 }, newItems: [], updatedItems: [] };
+  }
+
+  // Filter before summarizing so expired items never cost a model call.
+  const items = (result.data ?? []).filter(item => isWithinRetention(item, now, retentionDays));
+  const summaryPromises = items.map(async (item) => {
+    item.summary = await summarizeWithCache(item.description);
+  });
+  await Promise.all(summaryPromises);
+
+  const stored = await storeSerially(() => storeFeedItems(items, result.rawDescriptions ?? new Map(), result.undated ?? new Set()));
+  if (!stored.success) {
+    await updateFeedFetchState(feedId, { lastFetchedAt: now.toISOString(), lastError: stored.error });
+    return { result: { feedId, url, status: 'failed', itemCount: 0, newItemCount: 0, error: stored.error }, newItems: [], updatedItems: [] };
+  }
+
+  // Only remember the validators once the items are safely stored, so a failed
+  // write is retried in full on the next run instead of being skipped as a 304.
+  await updateFeedFetchState(feedId, {
+    title: result.feed?.title,
+    siteUrl: result.feed?.link,
+    faviconUrl: result.feed ? faviconFor(feed, result.feed) : undefined,
+    etag: result.etag,
+    lastModified: result.lastModified,
+    lastFetchedAt: now.toISOString(),
+    lastSucceededAt: now.toISOString(),
+    lastError: undefined,
+  });
+  const newItems = stored.newItems ?? [];
+  return {
+    result: { feedId, url, status: 'updated', itemCount: items.length, newItemCount: newItems.length },
+    newItems,
+    updatedItems: stored.updatedItems ?? [],
+  };
+}
+
+// Expired items deleted per query, each with its raw HTML and revisions.
+const PURGE_BATCH_SIZE = 100;
+
+/**
+ * Deletes stored items published longer ago than the retention period, with
+ * their raw HTML and revisions. Items whose date doesn't parse are stored with
+ * a `publishedAt` of 0, and are deleted too, as ingestion would skip them.
+ */
+async function purgeExpiredItems(now: Date, retentionDays: number): Promise<number> {
+  if (!db) return 0;
+  const firestore = db;
+  // The newest time isWithinRetention rejects: more than `retentionDays` whole days ago.
+  const cutoff = subDays(now, retentionDays + 1).getTime();
+  let purged = 0;
+  while (true) {
+    const snapshot = await firestore.collection('feedItems').where('publishedAt', '<=', cutoff).limit(PURGE_BATCH_SIZE).get();
+    if (snapshot.empty) return purged;
+
+    const ids = snapshot.docs.map(itemDoc => itemDoc.id);
+    const refs: DocumentReference[] = snapshot.docs.flatMap(itemDoc => [itemDoc.ref, firestore.collection('rawFeedItems').doc(itemDoc.id)]);
+    for (let start = 0; start < ids.length; start += MAX_IN_QUERY_VALUES) {
+      const revisions = await firestore.collection('itemRevisions').where('itemId', 'in', ids.slice(start, start + MAX_IN_QUERY_VALUES)).get();
+      refs.push(...revisions.docs.map(revisionDoc => revisionDoc.ref));
+    }
+    // Firestore batches are limited to 500 writes.
+    for (let start = 0; start < refs.length; start += 500) {
+      const batch = firestore.batch();
+      refs.slice(start, start + 500).forEach(ref => batch.delete(ref));
+      await batch.commit();
+    }
+    purged += snapshot.size;
+  }
+}
+
+/**
+ * Fetches every enabled feed that is due for polling, summarizes new content and
+ * writes the results to Firestore. Triggered by the /api/ingest route and the
+ * `npm run ingest` script; `force` ignores each feed's poll interval.
+ */
+export async function runIngestion({ force = false }: { force?: boolean } = {}): Promise<IngestionResult> {
+  const startedAt = new Date();
+  const [allFeeds, { retentionDays }] = await Promise.all([listFeeds(), getIngestionSettings()]);
+  const feeds = allFeeds.filter(feed => feed.enabled && (force || isDue(feed, startedAt)));
+  const results = await Promise.all(
+    feeds.map(feed =>
+      ingestFeed(feed, startedAt, retentionDays).catch((error): FeedIngestionChanges => {
+        console.error(`Error ingesting feed ${feed.url}:`, error);
+        const result: FeedIngestionResult = { feedId: feed.id, url: feed.url, status: 'failed', itemCount: 0, newItemCount: 0, error: 'An unexpected error occurred while ingesting the feed.' };
+        return { result, newItems: [], updatedItems: [] };
+      })
+    )
+  );
+
+  const purgedItemCount = await storeSerially(() => purgeExpiredItems(startedAt, retentionDays)).catch(error => {
+    console.error('Error deleting expired items:', error);
+    return 0;
+  });
+
+  // A feed's first successful fetch only backfills its history, which would flood the chat channels.
+  // Feeds fetched before lastSucceededAt existed count as having succeeded if their last fetch had no error.
+  const newItems: NewFeedItems[] = feeds
+    .map((feed, index) => ({ feed, items: results[index].newItems }))
+    .filter(({ feed }) => !!(feed.lastSucceededAt ?? (feed.lastError ? undefined : feed.lastFetchedAt)));
+  const events: WebhookEventPayload[] = feeds.flatMap((feed, index) => {
+    const { result, newItems: created, updatedItems: updated } = results[index];
+    return [
+      ...created.map(item => itemEvent('item.created', item, feed)),
+      ...updated.map(item => itemEvent('item.updated', item, feed)),
+      ...(result.status === 'failed' ? [feedFailedEvent(feed, result.error ?? 'The feed could not be ingested.')] : []),
+    ];
+  });
+  const [digests, notifications, webhooks] = await Promise.all([
+    refreshWeeklyDigests(startedAt),
+    notifyNewItems(newItems).catch((error): ChatNotificationResult[] => {
+      console.error('Error posting new items to chat webhooks:', error);
+      return [];
+    }),
+    dispatchWebhookEvents(events).catch((error): WebhookDispatchResult[] => {
+      console.error('Error sending events to outgoing webhooks:', error);
+      return [];
+    }),
+  ]);
+
+  return {
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    feeds: results.map(({ result }) => result),
+    purgedItemCount,
+    digests,
+    notifications,
+    webhooks,
+  };
+}
@@ -0,0 +1,21 @@
+import { adminDb as db } from '@/lib/firebase-admin';
+import type { IngestionSettings } from '@/lib/types';
+
+export const DEFAULT_RETENTION_DAYS = 14;
+
+// The home page offers ranges of up to 90 days, plus custom ones.
+export const MAX_RETENTION_DAYS = 365;
+
+export async function getIngestionSettings(): Promise<IngestionSettings> {
+  if (!db) return { retentionDays: DEFAULT_RETENTION_DAYS };
+  const settingsSnap = await db.collection('settings').doc('ingestion').get();
+  const retentionDays: unknown = settingsSnap.data()?.retentionDays;
+  return {
+    retentionDays: typeof retentionDays === 'number' && Number.isInteger(retentionDays) && retentionDays > 0 ? retentionDays : DEFAULT_RETENTION_DAYS,
+  };
+}
+
+export async function updateIngestionSettings(settings: IngestionSettings): Promise<void> {
+  if (!db) throw new Error('Firestore is not configured.');
+  await db.collection('settings').doc('ingestion').set(settings, { merge: true });
+}
@@ -0,0 +1,82 @@
+import { endOfDay, endOfISOWeek, format, getISOWeek, getISOWeekYear, startOfDay, startOfISOWeek, subDays } from 'date-fns';
+import type { RssItem } from '@/lib/types';
+
+// How the home page buckets items. Runs in the browser, on the items already loaded.
+
+export type ItemGrouping = 'week' | 'month' | 'feed';
+
+/** Either the last few days, or a range of calendar days picked by the user. */
+export type TimeWindow = { days: number } | { from: Date; to: Date };
+
+export const DEFAULT_TIME_WINDOW: TimeWindow = { days: 14 };
+
+// The one group for items whose feed has since been removed. Keyed apart from any feed URL.
+const OTHER_FEEDS: Omit<ItemGroup, 'items'> = { key: 'other-feeds', label: 'Other feeds' };
+
+/** The first and last instants a window covers. */
+export function windowBounds(window: TimeWindow, now = new Date()): { from: Date; to: Date } {
+  if ('days' in window) {
+    return { from: startOfDay(subDays(now, window.days)), to: now };
+  }
+  return { from: startOfDay(window.from), to: endOfDay(window.to) };
+}
+
+export interface ItemGroup {
+  key: string;
+  label: string;
+  items: RssItem[];
+}
+
+/** An item's publication date, or null when its feed gave none that parses. */
+export function itemDate(item: RssItem): Date | null {
+  const date = new Date(item.pubDate);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/** The items published in the range (inclusive), newest first. */
+export function itemsInRange(items: RssItem[], from: Date, to: Date): RssItem[] {
+  return items
+    .map(item => ({ item, date: itemDate(item) }))
+    .filter((entry): entry is { item: RssItem; date: Date } => !!entry.date && entry.date >= from && entry.date <= to)
+    .sort((a, b) => b.date.getTime() - a.date.getTime())
+    .map(({ item }) => item);
+}
+
+function groupFor(item: RssItem, grouping: ItemGrouping, feedNames: Record<string, string>): Omit<ItemGroup, 'items'> {
+  const date = itemDate(item) ?? new Date(0);
+  switch (grouping) {
+    case 'week': {
+      const week = getISOWeek(date);
+      const year = getISOWeekYear(date);
+      return {
+        key: `${year}-W${week}`,
+        label: `Week ${week}, ${year} · ${format(startOfISOWeek(date), 'MMM d')} – ${format(endOfISOWeek(date), 'MMM d')}`,
+      };
+    }
+    case 'month':
+      return { key: format(date, 'yyyy-MM'), label: format(date, 'MMMM yyyy') };
+    case 'feed': {
+      // Items announced by several feeds are listed under the feed that announced them first.
+      const feedUrl = item.feedUrl ?? '';
+      const name = feedNames[feedUrl];
+      return name !== undefined ? { key: feedUrl, label: name } : OTHER_FEEDS;
+    }
+  }
+}
+
+/**
+ * Buckets items that are already sorted newest first. Weeks and months keep
+ * that order; feeds are listed alphabetically, with "Other feeds" last.
+ */
+export function groupItems(items: RssItem[], grouping: ItemGrouping, feedNames: Record<string, string>): ItemGroup[] {
+  const groups = new Map<string, ItemGroup>();
+  items.forEach(item => {
+    const { key, label } = groupFor(item, grouping, feedNames);
+    const group = groups.get(key) ?? { key, label, items: [] };
+    group.items.push(item);
+    groups.set(key, group);
+  });
+  const ordered = [...groups.values()];
+  if (grouping !== 'feed') return ordered;
+  return ordered.sort((a, b) => Number(a.key === OTHER_FEEDS.key) - Number(b.key === OTHER_FEEDS.key) || a.label.localeCompare(b.label));
+}
@@ -0,0 +1,148 @@
+import { FieldPath, type Query } from 'firebase-admin/firestore';
+import { adminDb as db } from '@/lib/firebase-admin';
+import { listFeeds } from '@/lib/feed-store';
+import type { Feed, RssItem } from '@/lib/types';
+
+export interface ItemFilters {
+  /** Source feeds, by URL or ID. */
+  feeds?: string[];
+  categories?: string[];
+  /** Only items published in this range (inclusive). */
+  from?: Date;
+  to?: Date;
+  /** Case-insensitive text to find in the title, content or summary. */
+  query?: string;
+  /** Only items after this one in the newest-first order, for paging. */
+  after?: ItemPosition;
+}
+
+/** Where an item sits in the newest-first order. */
+export interface ItemPosition {
+  publishedAt: number;
+  id: string;
+}
+
+/** A stored item together with its document ID and the feeds it came from. */
+export interface QueriedItem {
+  id: string;
+  item: RssItem;
+  feed?: Feed;
+  /** Every subscribed feed that announced the item, starting with `feed`. */
+  sources: Feed[];
+  /** The item's publication time in milliseconds, or 0 if it has no valid date. */
+  publishedAt: number;
+}
+
+/** One page of matching items, and where the next page starts, or null when there are no more. */
+export interface ItemPage {
+  items: QueriedItem[];
+  next: ItemPosition | null;
+}
+
+// Documents read per query while looking for matches that are filtered in memory.
+const QUERY_BATCH_SIZE = 200;
+
+// Documents one page may read, so a filter that matches little cannot read the whole collection.
+const MAX_SCANNED_PER_PAGE = 1000;
+
+/** The publication time stored as `publishedAt`, in milliseconds, or 0 if the date doesn't parse. */
+export function publicationTime(pubDate: string): number {
+  return new Date(pubDate).getTime() || 0;
+}
+
+/**
+ * Reads stored items newest first, with ties broken by descending ID.
+ * Firestore orders and range-queries `publishedAt`; the feed, category and
+ * text filters are applied in memory. Stops once `limit` items match or
+ * `maxScanned` documents have been read, and says where to resume.
+ */
+async function scanItems(filters: ItemFilters, limit?: number, maxScanned?: number): Promise<ItemPage> {
+  if (!db) return { items: [], next: null };
+  const feedsByUrl = new Map((await listFeeds()).map(feed => [feed.url, feed]));
+  const feedFilters = filters.feeds ?? [];
+  const categoryFilters = (filters.categories ?? []).map(category => category.toLowerCase());
+  const query = filters.query?.trim().toLowerCase();
+
+  const matches = ({ item, sources }: QueriedItem) => {
+    if (feedFilters.length > 0 && !sources.some(feed => feedFilters.includes(feed.url) || feedFilters.includes(feed.id))) {
+      return false;
+    }
+    if (categoryFilters.length > 0 && !sources.some(feed => feed.category && categoryFilters.includes(feed.category.toLowerCase()))) {
+      return false;
+    }
+    if (query) {
+      const text = [item.title, item.description, ...(item.summary ?? [])].join('\n').toLowerCase();
+      if (!text.includes(query)) return false;
+    }
+    return true;
+  };
+
+  // Ordering by the document ID in the same direction as `publishedAt` needs no composite index.
+  let ordered: Query = db.collection('feedItems').orderBy('publishedAt', 'desc').orderBy(FieldPath.documentId(), 'desc');
+  if (filters.from) ordered = ordered.where('publishedAt', '>=', filters.from.getTime());
+  if (filters.to) ordered = ordered.where('publishedAt', '<=', filters.to.getTime());
+
+  const found: QueriedItem[] = [];
+  let position = filters.after;
+  let scanned = 0;
+  while (true) {
+    const batchSize = maxScanned === undefined ? QUERY_BATCH_SIZE : Math.min(QUERY_BATCH_SIZE, maxScanned - scanned);
+    const page = position ? ordered.startAfter(position.publishedAt, position.id) : ordered;
+    const snapshot = await page.limit(batchSize).get();
+    scanned += snapshot.size;
+    for (const itemDoc of snapshot.docs) {
+      const item = itemDoc.data() as RssItem;
+      const sourceUrls = item.sources?.map(source => source.feedUrl) ?? (item.feedUrl ? [item.feedUrl] : []);
+      const queried: QueriedItem = {
+        id: itemDoc.id,
+        item,
+        feed: item.feedUrl ? feedsByUrl.get(item.feedUrl) : undefined,
+        sources: sourceUrls.flatMap(url => feedsByUrl.get(url) ?? []),
+        publishedAt: item.publishedAt ?? 0,
+      };
+      position = { publishedAt: queried.publishedAt, id: queried.id };
+      if (!matches(queried)) continue;
+      if (found.length === limit) {
+        // There is at least one more match, so the next page starts after the last item on this one.
+        const last = found[found.length - 1];
+        return { items: found, next: { publishedAt: last.publishedAt, id: last.id } };
+      }
+      found.push(queried);
+    }
+    if (snapshot.size < batchSize) return { items: found, next: null };
+    if (maxScanned !== undefined && scanned >= maxScanned) return { items: found, next: position ?? null };
+  }
+}
+
+/** Reads every stored item that matches the filters, newest first. For jobs that need the whole result. */
+export async function queryItems(filters: ItemFilters = {}): Promise<QueriedItem[]> {
+  return (await scanItems(filters)).items;
+}
+
+/**
+ * Reads one page of matching items for a request. At most
+ * MAX_SCANNED_PER_PAGE documents are read, so a page can hold fewer than
+ * `limit` items, even none, and still have a `next` position.
+ */
+export async function queryItemPage(filters: ItemFilters, limit: number): Promise<ItemPage> {
+  return scanItems(filters, limit, MAX_SCANNED_PER_PAGE);
+}
+
+/**
+ * Items stored before `publishedAt` existed are left out of every query.
+ * Ingestion adds it to the items still in their feeds; this adds it to the
+ * rest. Returns the number of items updated.
+ */
+export async function backfillPublishedAt(): Promise<number> {
+  if (!db) throw new Error('Firestore is not configured.');
+  const firestore = db;
+  const snapshot = await firestore.collection('feedItems').get();
+  const missing = snapshot.docs.filter(itemDoc => typeof itemDoc.get('publishedAt') !== 'number');
+  // Firestore batches are limited to 500 writes.
+  for (let start = 0; start < missing.length; start += 500) {
+    const batch = firestore.batch();
+    missing.slice(start, start + 500).forEach(itemDoc => batch.update(itemDoc.ref, { publishedAt: publicationTime((itemDoc.data() as RssItem).pubDate) }));
+    await batch.commit();
+  }
+  return missing.length;
+}
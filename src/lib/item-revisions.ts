@@ -0,0 +1,32 @@
+import { adminDb as db } from '@/lib/firebase-admin';
+import { sanitizeFeedHtml } from '@/lib/html-sanitizer';
+import type { ItemRevision, ItemVersion, RssItem } from '@/lib/types';
+
+// Ingestion writes a revision to `itemRevisions` each time a feed edits an
+// item's HTML, holding the version that was replaced. The current version is
+// the item itself. Every version is the sanitized description, since viewers
+// may not see the feed's original HTML.
+
+/** Lists an item's versions, oldest first and ending with the current one. Returns null if the item does not exist. */
+export async function listItemVersions(itemId: string): Promise<ItemVersion[] | null> {
+  if (!db) return null;
+  const [itemSnap, revisionsSnap] = await Promise.all([
+    db.collection('feedItems').doc(itemId).get(),
+    // Sorted in memory, so the query needs no composite index.
+    db.collection('itemRevisions').where('itemId', '==', itemId).get(),
+  ]);
+  if (!itemSnap.exists) return null;
+
+  const item = itemSnap.data() as RssItem;
+  const revisions = revisionsSnap.docs
+    .map(revisionDoc => revisionDoc.data() as Omit<ItemRevision, 'id'>)
+    .sort((a, b) => a.replacedAt.localeCompare(b.replacedAt));
+  const current: ItemVersion = {
+    title: item.title,
+    html: item.description,
+    summary: item.summary ?? [],
+    seenAt: item.updatedAt ?? item.firstSeenAt ?? '',
+  };
+  // Revisions written before they were sanitized hold the feed's HTML, so they are sanitized again on the way out.
+  return [...revisions.map(({ title, html, summary, seenAt }) => ({ title, html: sanitizeFeedHtml(html, item.link), summary, seenAt })), current];
+}
@@ -0,0 +1,30 @@
+import nodemailer, { type Transporter } from 'nodemailer';
+
+// Outgoing mail goes over plain SMTP, so a local sink such as Mailpit
+// (SMTP_HOST=localhost SMTP_PORT=1025) can stand in for a real server.
+
+let transporter: Transporter | null = null;
+
+export function isMailerConfigured(): boolean {
+  return !!process.env.SMTP_HOST && !!process.env.EMAIL_FROM;
+}
+
+export function getMailer(): Transporter | null {
+  if (!isMailerConfigured()) return null;
+  if (!transporter) {
+    const port = Number(process.env.SMTP_PORT ?? 587);
+    transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      // Port 465 uses implicit TLS; other ports upgrade with STARTTLS when the server offers it.
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+    });
+  }
+  return transporter;
+}
+
+/** The public address of the app, used for links in emails. */
+export function appUrl(path = '/'): string {
+  return new URL(path, process.env.APP_URL ?? 'http://localhost:3000').href;
+}
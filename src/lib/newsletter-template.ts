@@ -0,0 +1,153 @@
+import { format } from 'date-fns';
+import { parseSummary } from '@/lib/summary-format';
+import type { RssItem, WeeklyDigest } from '@/lib/types';
+
+// Email clients ignore stylesheets, so the theme colors from globals.css are inlined.
+const COLORS = {
+  background: '#f5f5db',
+  card: '#f9f9f1',
+  foreground: '#33221a',
+  muted: '#6b5a50',
+  primary: '#4b3226',
+  accent: '#cc6633',
+  border: '#d8cfc0',
+};
+
+// Matches the Badge variants ReleaseNotesTable uses for each summary type.
+const BADGE_STYLES: Record<'default' | 'secondary' | 'destructive' | 'outline', string> = {
+  default: `background:${COLORS.primary};color:#ffffff;`,
+  secondary: `background:#ebe4d6;color:${COLORS.primary};`,
+  destructive: `background:#c0392b;color:#ffffff;`,
+  outline: `border:1px solid ${COLORS.border};color:${COLORS.foreground};`,
+};
+
+export interface NewsletterContent {
+  periodLabel: string;
+  items: RssItem[];
+  digest?: WeeklyDigest;
+  dashboardUrl: string;
+  unsubscribeUrl: string;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function stripHtml(html: string): string {
+  return html.replace(/<[^>]*>?/gm, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function formatDate(pubDate: string): string {
+  const date = new Date(pubDate);
+  return isNaN(date.getTime()) ? 'N/A' : format(date, 'MMM d, yyyy');
+}
+
+function summaryPoints(item: RssItem): string[] {
+  const points = (item.summary ?? []).filter(point => point.trim() !== '');
+  if (points.length > 0) return points;
+  const text = stripHtml(item.description);
+  return text ? [text.length > 250 ? `${text.slice(0, 250)}...` : text] : [];
+}
+
+function digestHtml(digest: WeeklyDigest): string {
+  const products = digest.products.map(product => {
+    const entries = [
+      ...product.headlines.map(entry => ['Headline', entry]),
+      ...product.breakingChanges.map(entry => ['Breaking', entry]),
+      ...product.notableFixes.map(entry => ['Fixed', entry]),
+    ].map(([label, entry]) => `<li style="margin:0 0 4px;"><strong>${label}:</strong> ${escapeHtml(entry)}</li>`).join('');
+    return `<p style="margin:12px 0 4px;font-weight:bold;">${escapeHtml(product.product)}</p><ul style="margin:0;padding-left:20px;">${entries}</ul>`;
+  }).join('');
+  return `
+    <div style="background:${COLORS.card};border:1px solid ${COLORS.accent};border-radius:8px;padding:16px;margin:0 0 24px;">
+      <p style="margin:0 0 8px;font-size:18px;font-weight:bold;color:${COLORS.primary};">Digest</p>
+      <p style="margin:0;">${escapeHtml(digest.overview)}</p>
+      ${products}
+    </div>`;
+}
+
+function itemRowHtml(item: RssItem): string {
+  const points = summaryPoints(item).map(point => {
+    const { type, description, variant } = parseSummary(point);
+    const badge = type
+      ? `<span style="display:inline-block;padding:2px 8px;margin-right:8px;border-radius:9999px;font-size:12px;font-weight:600;white-space:nowrap;${BADGE_STYLES[variant]}">${escapeHtml(type)}</span>`
+      : '';
+    return `<li style="margin:0 0 12px;list-style:none;">${badge}${escapeHtml(description)}</li>`;
+  }).join('');
+  return `
+        <tr>
+          <td style="padding:16px 12px;vertical-align:top;border-top:1px solid ${COLORS.border};color:${COLORS.muted};white-space:nowrap;width:120px;">${formatDate(item.pubDate)}</td>
+          <td style="padding:16px 12px;vertical-align:top;border-top:1px solid ${COLORS.border};font-weight:bold;"><a href="${escapeHtml(item.link)}" style="color:${COLORS.foreground};">${escapeHtml(item.title)}</a></td>
+          <td style="padding:16px 12px;vertical-align:top;border-top:1px solid ${COLORS.border};"><ul style="margin:0;padding:0;">${points}</ul></td>
+        </tr>`;
+}
+
+/** Builds the weekly email as HTML laid out like ReleaseNotesTable, plus a plain-text alternative. */
+export function buildNewsletter(content: NewsletterContent): { subject: string; html: string; text: string } {
+  const subject = `Brew News: ${content.items.length} ${content.items.length === 1 ? 'release note' : 'release notes'} for ${content.periodLabel}`;
+
+  const html = `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${escapeHtml(subject)}</title></head>
+<body style="margin:0;padding:24px;background:${COLORS.background};color:${COLORS.foreground};font-family:Helvetica,Arial,sans-serif;font-size:14px;line-height:1.5;">
+  <div style="max-width:800px;margin:0 auto;">
+    <h1 style="margin:0;color:${COLORS.primary};font-size:28px;">Brew News</h1>
+    <p style="margin:4px 0 24px;color:${COLORS.muted};">Your weekly brew of release notes, ${escapeHtml(content.periodLabel)}.</p>
+    ${content.digest ? digestHtml(content.digest) : ''}
+    <table role="presentation" cellpadding="0" cellspacing="0" style="width:100%;border-collapse:collapse;background:${COLORS.card};border:1px solid ${COLORS.border};border-radius:8px;">
+      <thead>
+        <tr>
+          <th align="left" style="padding:12px;">Date</th>
+          <th align="left" style="padding:12px;">Release</th>
+          <th align="left" style="padding:12px;">Updates</th>
+        </tr>
+      </thead>
+      <tbody>${content.items.map(itemRowHtml).join('')}
+      </tbody>
+    </table>
+    <p style="margin:24px 0 0;font-size:12px;color:${COLORS.muted};">
+      <a href="${escapeHtml(content.dashboardUrl)}" style="color:${COLORS.accent};">Open Brew News</a>
+      &middot;
+      <a href="${escapeHtml(content.unsubscribeUrl)}" style="color:${COLORS.muted};">Unsubscribe from these emails</a>
+    </p>
+  </div>
+</body>
+</html>
+`;
+
+  const digestText = content.digest
+    ? [
+        'DIGEST',
+        content.digest.overview,
+        ...content.digest.products.flatMap(product => [
+          '',
+          product.product,
+          ...product.headlines.map(entry => `  - Headline: ${entry}`),
+          ...product.breakingChanges.map(entry => `  - Breaking: ${entry}`),
+          ...product.notableFixes.map(entry => `  - Fixed: ${entry}`),
+        ]),
+        '',
+        '',
+      ].join('\n')
+    : '';
+  const itemsText = content.items.map(item => [
+    `${formatDate(item.pubDate)}  ${item.title}`,
+    item.link,
+    ...summaryPoints(item).map(point => `  - ${point}`),
+  ].join('\n')).join('\n\n');
+  const text = `BREW NEWS
+Your weekly brew of release notes, ${content.periodLabel}.
+
+${digestText}${itemsText}
+
+Open Brew News: ${content.dashboardUrl}
+Unsubscribe: ${content.unsubscribeUrl}
+`;
+
+  return { subject, html, text };
+}
@@ -0,0 +1,116 @@
+import { differenceInDays, format, startOfDay, subDays } from 'date-fns';
+import { adminDb as db, withoutUndefined } from '@/lib/firebase-admin';
+import { DIGEST_PERIODS, listWeeklyDigests } from '@/lib/digest';
+import { listActiveSubscriptions, markEmailSent, type ActiveSubscription } from '@/lib/email-subscriptions';
+import { queryItems } from '@/lib/item-query';
+import { appUrl, getMailer } from '@/lib/mailer';
+import { buildNewsletter, type NewsletterContent } from '@/lib/newsletter-template';
+import { findActiveUser } from '@/lib/user-store';
+import type { EmailLogEntry } from '@/lib/types';
+
+// A little under a week, so a weekly schedule that fires slightly early still sends.
+const MIN_DAYS_BETWEEN_EMAILS = 6;
+
+export interface RecipientResult {
+  uid: string;
+  email: string;
+  status: 'sent' | 'skipped' | 'failed';
+  reason?: string;
+}
+
+export interface NewsletterResult {
+  startedAt: string;
+  finishedAt: string;
+  recipients: RecipientResult[];
+  error?: string;
+}
+
+async function logDelivery(entry: Omit<EmailLogEntry, 'id'>): Promise<void> {
+  if (!db) return;
+  try {
+    await db.collection('emailLog').add(withoutUndefined(entry));
+  } catch (error) {
+    console.error("Error writing the email log:", error);
+  }
+}
+
+export async function listEmailLog(limit = 100): Promise<EmailLogEntry[]> {
+  if (!db) return [];
+  const snapshot = await db.collection('emailLog').orderBy('sentAt', 'desc').limit(limit).get();
+  return snapshot.docs.map(entryDoc => ({ ...entryDoc.data(), id: entryDoc.id }) as EmailLogEntry);
+}
+
+async function sendToSubscriber(subscription: ActiveSubscription, content: Omit<NewsletterContent, 'unsubscribeUrl'>, now: Date, force: boolean): Promise<RecipientResult> {
+  const recipient = { uid: subscription.uid, email: subscription.email };
+  if (!force && subscription.lastSentAt && differenceInDays(now, new Date(subscription.lastSentAt)) < MIN_DAYS_BETWEEN_EMAILS) {
+    return { ...recipient, status: 'skipped', reason: 'Already sent this week.' };
+  }
+  if (!await findActiveUser(subscription.uid)) {
+    return { ...recipient, status: 'skipped', reason: 'The user no longer has access.' };
+  }
+
+  const token = encodeURIComponent(subscription.unsubscribeToken);
+  const { subject, html, text } = buildNewsletter({ ...content, unsubscribeUrl: appUrl(`/unsubscribe?token=${token}`) });
+  try {
+    const info = await getMailer()!.sendMail({
+      from: process.env.EMAIL_FROM,
+      to: subscription.email,
+      subject,
+      html,
+      text,
+      // One-click unsubscribe (RFC 8058) for mail clients that offer it.
+      list: { unsubscribe: { url: appUrl(`/api/unsubscribe?token=${token}`), comment: 'Unsubscribe' } },
+      headers: { 'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click' },
+    });
+    await markEmailSent(subscription.uid, now);
+    await logDelivery({ ...recipient, subject, status: 'sent', messageId: info.messageId, sentAt: new Date().toISOString() });
+    return { ...recipient, status: 'sent' };
+  } catch (error) {
+    console.error(`Error sending the newsletter to ${subscription.email}:`, error);
+    const message = error instanceof Error ? error.message : String(error);
+    await logDelivery({ ...recipient, subject, status: 'failed', error: message, sentAt: new Date().toISOString() });
+    return { ...recipient, status: 'failed', reason: message };
+  }
+}
+
+/**
+ * Emails this week's items to every subscriber who has not had this week's
+ * email yet. Pass `force` to send again regardless.
+ */
+export async function sendWeeklyNewsletter({ force = false }: { force?: boolean } = {}): Promise<NewsletterResult> {
+  const startedAt = new Date();
+  const finish = (recipients: RecipientResult[], error?: string): NewsletterResult => ({
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    recipients,
+    error,
+  });
+  if (!getMailer()) {
+    return finish([], 'SMTP is not configured. Set SMTP_HOST and EMAIL_FROM.');
+  }
+
+  const period = DIGEST_PERIODS.find(candidate => candidate.period === 'this-week')!;
+  const [items, digests, subscriptions] = await Promise.all([queryItems({ from: subDays(startedAt, period.maxDaysAgo + 1) }), listWeeklyDigests(), listActiveSubscriptions()]);
+  const weekItems = items
+    .filter(({ publishedAt }) => {
+      const daysAgo = differenceInDays(startedAt, new Date(publishedAt));
+      return publishedAt > 0 && daysAgo >= period.minDaysAgo && daysAgo <= period.maxDaysAgo;
+    })
+    .map(({ item }) => item);
+  if (weekItems.length === 0) {
+    return finish(subscriptions.map(({ uid, email }) => ({ uid, email, status: 'skipped', reason: 'There are no new items this week.' })));
+  }
+
+  const content = {
+    periodLabel: `${format(startOfDay(subDays(startedAt, period.maxDaysAgo)), 'MMM d')} – ${format(startedAt, 'MMM d, yyyy')}`,
+    items: weekItems,
+    digest: digests.find(digest => digest.period === 'this-week'),
+    dashboardUrl: appUrl('/'),
+  };
+  // Sent one at a time so a large list does not trip the SMTP server's rate limits.
+  const recipients: RecipientResult[] = [];
+  for (const subscription of subscriptions) {
+    recipients.push(await sendToSubscriber(subscription, content, startedAt, force));
+  }
+  return finish(recipients);
+}
@@ -0,0 +1,131 @@
+import { SaxesParser } from 'saxes';
+
+export interface OpmlFeed {
+  url: string;
+  title?: string;
+  siteUrl?: string;
+  /** The enclosing folder outline, e.g. "Cloud / Databases" for nested folders. */
+  category?: string;
+}
+
+export interface OpmlExportFeed {
+  url: string;
+  title: string;
+  siteUrl?: string;
+  category?: string;
+}
+
+export class OpmlParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OpmlParseError';
+  }
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Reads the feed subscriptions from an OPML 1.0 or 2.0 document. Outlines
+ * without an `xmlUrl` are treated as folders and become the category of the
+ * feeds nested inside them.
+ */
+export function parseOpml(xml: string): OpmlFeed[] {
+  const parser = new SaxesParser();
+  const feeds: OpmlFeed[] = [];
+  // One entry per open <outline>: the folder name it contributes, or null for feeds.
+  const folders: (string | null)[] = [];
+  let sawRoot = false;
+
+  parser.on('error', err => {
+    throw new OpmlParseError(`Malformed OPML: ${err.message}`);
+  });
+
+  parser.on('opentag', tag => {
+    if (!sawRoot) {
+      if (tag.name !== 'opml') throw new OpmlParseError('The file is not an OPML document.');
+      sawRoot = true;
+    }
+    if (tag.name !== 'outline') return;
+
+    const attributes = tag.attributes as Record<string, string>;
+    const title = (attributes.title || attributes.text || '').trim() || undefined;
+    const url = attributes.xmlUrl?.trim();
+    if (!url) {
+      folders.push(title ?? null);
+      return;
+    }
+
+    const path = folders.filter((folder): folder is string => !!folder);
+    // OPML 2.0 also allows a comma-separated `category` attribute of slash-delimited paths.
+    const categoryAttribute = attributes.category?.split(',')[0].trim().replace(/^\//, '').replace(/\//g, ' / ');
+    feeds.push({
+      url,
+      title,
+      siteUrl: attributes.htmlUrl?.trim() || undefined,
+      category: path.length > 0 ? path.join(' / ') : categoryAttribute || undefined,
+    });
+    folders.push(null);
+  });
+
+  parser.on('closetag', tag => {
+    if (tag.name === 'outline') folders.pop();
+  });
+
+  try {
+    parser.write(xml.replace(/^\uFEFF/, '').trimStart()).close();
+  } catch (err) {
+    if (err instanceof OpmlParseError) throw err;
+    throw new OpmlParseError(`Malformed OPML: ${(err as Error).message}`);
+  }
+  if (!sawRoot) {
+    throw new OpmlParseError('The file is empty.');
+  }
+  return feeds;
+}
+
+function outline(feed: OpmlExportFeed, indent: string): string {
+  const siteUrl = feed.siteUrl ? ` htmlUrl="${escapeXml(feed.siteUrl)}"` : '';
+  const title = escapeXml(feed.title);
+  return `${indent}<outline type="rss" text="${title}" title="${title}" xmlUrl="${escapeXml(feed.url)}"${siteUrl}/>`;
+}
+
+/** Builds an OPML 2.0 document, grouping feeds into one folder outline per category. */
+export function buildOpml(feeds: OpmlExportFeed[], title = 'Brew News feeds'): string {
+  const uncategorized = feeds.filter(feed => !feed.category);
+  const categories = new Map<string, OpmlExportFeed[]>();
+  feeds.filter(feed => feed.category).forEach(feed => {
+    categories.set(feed.category!, [...(categories.get(feed.category!) ?? []), feed]);
+  });
+
+  const body = [
+    ...[...categories.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([category, categoryFeeds]) => [
+        `    <outline text="${escapeXml(category)}" title="${escapeXml(category)}">`,
+        ...categoryFeeds.map(feed => outline(feed, '      ')),
+        '    </outline>',
+      ].join('\n')),
+    ...uncategorized.map(feed => outline(feed, '    ')),
+  ];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeXml(title)}</title>`,
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    '  </head>',
+    '  <body>',
+    ...body,
+    '  </body>',
+    '</opml>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,68 @@
+import { adminDb as db } from '@/lib/firebase-admin';
+import { findFeedTokenUser } from '@/lib/feed-tokens';
+import { buildAtomFeed, buildRssFeed, type OutgoingFeedItem } from '@/lib/feed-writer';
+import { queryItemPage } from '@/lib/item-query';
+import { appUrl } from '@/lib/mailer';
+
+export type OutgoingFeedFormat = 'rss' | 'atom';
+
+// Readers poll often, so only the newest items are published.
+const MAX_ITEMS = 100;
+
+const CONTENT_TYPES: Record<OutgoingFeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+};
+
+/**
+ * Serves the stored, summarized items as an RSS or Atom feed. Subscribers
+ * authenticate with `?token=`, and can narrow the feed with any number of
+ * `feed` (source feed URL or ID) and `category` parameters.
+ */
+export async function serveFeed(request: Request, format: OutgoingFeedFormat): Promise<Response> {
+  if (!db) {
+    return new Response('Firestore is not configured.', { status: 503 });
+  }
+  const url = new URL(request.url);
+  const user = await findFeedTokenUser(url.searchParams.get('token') ?? '');
+  if (!user) {
+    return new Response('A valid token is required.', { status: 401 });
+  }
+
+  const categoryFilters = url.searchParams.getAll('category');
+
+  try {
+    const { items: matches } = await queryItemPage({ feeds: url.searchParams.getAll('feed'), categories: categoryFilters }, MAX_ITEMS);
+    const items: OutgoingFeedItem[] = matches.map(({ id, item, feed }) => ({
+      ...item,
+      id,
+      sourceTitle: feed?.name || feed?.title,
+      category: feed?.category || undefined,
+    }));
+
+    // The permanent ID and self link leave out the token, which is a secret.
+    const publicUrl = new URL(url);
+    publicUrl.searchParams.delete('token');
+    const siteUrl = new URL('/', url).href;
+    const feed = {
+      id: publicUrl.href,
+      title: categoryFilters.length > 0 ? `Brew News: ${categoryFilters.join(', ')}` : 'Brew News',
+      description: 'AI-summarized release notes from your favorite feeds.',
+      siteUrl,
+      selfUrl: publicUrl.href,
+      tagHost: new URL(appUrl()).hostname,
+      items,
+    };
+
+    return new Response(format === 'atom' ? buildAtomFeed(feed) : buildRssFeed(feed), {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        // Each response is specific to a token, so it must not be cached by shared caches.
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error("Error building the outgoing feed:", error);
+    return new Response('Could not build the feed.', { status: 500 });
+  }
+}
@@ -0,0 +1,199 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { adminDb as db, withoutUndefined } from '@/lib/firebase-admin';
+import { toDocId } from '@/lib/feed-store';
+import { postWithRetries } from '@/lib/http-delivery';
+import type { Feed, OutgoingWebhook, OutgoingWebhookSettings, RssItem, WebhookDelivery, WebhookDeliveryAttempt, WebhookEvent } from '@/lib/types';
+
+// Webhooks live in `outgoingWebhooks/{id}` together with their signing secret,
+// and every event sent to one is recorded in `webhookDeliveries`.
+//
+// Each request carries `X-BrewNews-Timestamp` (Unix seconds) and
+// `X-BrewNews-Signature: sha256=<hex>`, the HMAC-SHA256 of
+// `<timestamp>.<body>` keyed with the webhook's secret.
+
+const SECRET_PREFIX = 'whsec_';
+
+interface StoredOutgoingWebhook extends Omit<OutgoingWebhook, 'id'> {
+  secret: string;
+}
+
+/** The JSON body sent for an event. */
+export interface WebhookEventPayload {
+  id: string;
+  event: WebhookEvent;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookDispatchResult {
+  webhookId: string;
+  name: string;
+  succeeded: number;
+  failed: number;
+}
+
+function newSecret(): string {
+  return `${SECRET_PREFIX}${randomBytes(24).toString('base64url')}`;
+}
+
+function toOutgoingWebhook(id: string, { secret: _secret, ...webhook }: StoredOutgoingWebhook): OutgoingWebhook {
+  return { ...webhook, id };
+}
+
+function describeFeed(feed: Feed) {
+  return { id: feed.id, url: feed.url, name: feed.name || feed.title || feed.url, category: feed.category };
+}
+
+function newEvent(event: WebhookEvent, data: Record<string, unknown>): WebhookEventPayload {
+  return { id: randomUUID(), event, createdAt: new Date().toISOString(), data };
+}
+
+export function itemEvent(event: 'item.created' | 'item.updated', item: RssItem, feed: Feed): WebhookEventPayload {
+  const { id, title, link, pubDate, description, summary } = item;
+  return newEvent(event, {
+    item: { id: id ?? toDocId(link), title, link, pubDate, description, summary: summary ?? [] },
+    feed: describeFeed(feed),
+  });
+}
+
+export function feedFailedEvent(feed: Feed, error: string): WebhookEventPayload {
+  return newEvent('feed.failed', { feed: describeFeed(feed), error });
+}
+
+export async function listOutgoingWebhooks(): Promise<OutgoingWebhook[]> {
+  if (!db) return [];
+  const snapshot = await db.collection('outgoingWebhooks').get();
+  return snapshot.docs
+    .map(webhookDoc => toOutgoingWebhook(webhookDoc.id, webhookDoc.data() as StoredOutgoingWebhook))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Creates a webhook and returns its signing secret, which is not shown again. */
+export async function createOutgoingWebhook(settings: OutgoingWebhookSettings, createdBy: string): Promise<{ webhook: OutgoingWebhook; secret: string }> {
+  if (!db) throw new Error('Firestore is not configured.');
+  const stored: StoredOutgoingWebhook = { ...settings, createdBy, createdAt: new Date().toISOString(), secret: newSecret() };
+  const ref = await db.collection('outgoingWebhooks').add(stored);
+  return { webhook: toOutgoingWebhook(ref.id, stored), secret: stored.secret };
+}
+
+export async function updateOutgoingWebhook(id: string, settings: OutgoingWebhookSettings): Promise<void> {
+  if (!db) throw new Error('Firestore is not configured.');
+  await db.collection('outgoingWebhooks').doc(id).update({ ...settings });
+}
+
+/** Deletes a webhook. Its deliveries stay in the log, but can no longer be redelivered. */
+export async function deleteOutgoingWebhook(id: string): Promise<void> {
+  if (!db) throw new Error('Firestore is not configured.');
+  await db.collection('outgoingWebhooks').doc(id).delete();
+}
+
+/** Replaces a webhook's signing secret. Returns the new secret, or null if the webhook does not exist. */
+export async function rotateWebhookSecret(id: string): Promise<string | null> {
+  if (!db) throw new Error('Firestore is not configured.');
+  const ref = db.collection('outgoingWebhooks').doc(id);
+  if (!(await ref.get()).exists) return null;
+  const secret = newSecret();
+  await ref.update({ secret });
+  return secret;
+}
+
+function signPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+async function send(webhook: StoredOutgoingWebhook, deliveryId: string, event: WebhookEvent, payload: string) {
+  const timestamp = Math.floor(Date.now() / 1000);
+  return postWithRetries(webhook.url, payload, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'X-BrewNews-Event': event,
+    'X-BrewNews-Delivery': deliveryId,
+    'X-BrewNews-Timestamp': String(timestamp),
+    'X-BrewNews-Signature': signPayload(webhook.secret, timestamp, payload),
+  });
+}
+
+function storedAttempts(attempts: WebhookDeliveryAttempt[]): WebhookDeliveryAttempt[] {
+  return attempts.map(attempt => withoutUndefined(attempt) as WebhookDeliveryAttempt);
+}
+
+/** Sends an event and logs the delivery. With `skip`, the delivery is only logged as failed, ready to be redelivered. */
+async function deliver(id: string, webhook: StoredOutgoingWebhook, event: WebhookEventPayload, skip: boolean): Promise<boolean> {
+  if (!db) return false;
+  const ref = db.collection('webhookDeliveries').doc();
+  const payload = JSON.stringify(event);
+  const outcome = skip ? { success: false, attempts: [] } : await send(webhook, ref.id, event.event, payload);
+  const now = new Date().toISOString();
+  const delivery: Omit<WebhookDelivery, 'id'> = {
+    webhookId: id,
+    webhookName: webhook.name,
+    event: event.event,
+    eventId: event.id,
+    status: outcome.success ? 'succeeded' : 'failed',
+    attempts: storedAttempts(outcome.attempts),
+    payload,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await ref.set(delivery);
+  return outcome.success;
+}
+
+/**
+ * Sends events to every enabled webhook subscribed to them. Each webhook gets
+ * its events in order; webhooks are served in parallel so a slow one does not
+ * hold up the rest. Once a delivery fails after its retries, the webhook's
+ * remaining events are logged as failed without being sent, rather than
+ * waiting out the retries for each of them.
+ */
+export async function dispatchWebhookEvents(events: WebhookEventPayload[]): Promise<WebhookDispatchResult[]> {
+  if (!db || events.length === 0) return [];
+  const snapshot = await db.collection('outgoingWebhooks').where('enabled', '==', true).get();
+
+  return Promise.all(snapshot.docs.map(async (webhookDoc): Promise<WebhookDispatchResult> => {
+    const webhook = webhookDoc.data() as StoredOutgoingWebhook;
+    const result: WebhookDispatchResult = { webhookId: webhookDoc.id, name: webhook.name, succeeded: 0, failed: 0 };
+    for (const event of events.filter(candidate => webhook.events.includes(candidate.event))) {
+      try {
+        if (await deliver(webhookDoc.id, webhook, event, result.failed > 0)) {
+          result.succeeded++;
+        } else {
+          result.failed++;
+        }
+      } catch (error) {
+        console.error(`Error delivering ${event.event} to webhook ${webhookDoc.id}:`, error);
+        result.failed++;
+      }
+    }
+    return result;
+  }));
+}
+
+export async function listWebhookDeliveries(limit = 100): Promise<WebhookDelivery[]> {
+  if (!db) return [];
+  const snapshot = await db.collection('webhookDeliveries').orderBy('createdAt', 'desc').limit(limit).get();
+  return snapshot.docs.map(deliveryDoc => ({ ...deliveryDoc.data(), id: deliveryDoc.id }) as WebhookDelivery);
+}
+
+/**
+ * Sends a logged delivery's payload again, signed with the webhook's current
+ * secret, and appends the new attempts to the same log entry. Returns null if
+ * the delivery or its webhook no longer exists.
+ */
+export async function redeliverWebhookDelivery(id: string): Promise<WebhookDelivery | null> {
+  if (!db) throw new Error('Firestore is not configured.');
+  const ref = db.collection('webhookDeliveries').doc(id);
+  const deliverySnap = await ref.get();
+  if (!deliverySnap.exists) return null;
+  const delivery = { ...deliverySnap.data(), id } as WebhookDelivery;
+  const webhookSnap = await db.collection('outgoingWebhooks').doc(delivery.webhookId).get();
+  if (!webhookSnap.exists) return null;
+
+  const outcome = await send(webhookSnap.data() as StoredOutgoingWebhook, id, delivery.event, delivery.payload);
+  const update: Pick<WebhookDelivery, 'status' | 'attempts' | 'updatedAt'> = {
+    status: outcome.success ? 'succeeded' : 'failed',
+    attempts: [...delivery.attempts, ...storedAttempts(outcome.attempts)],
+    updatedAt: new Date().toISOString(),
+  };
+  await ref.update(update);
+  return { ...delivery, ...update };
+}
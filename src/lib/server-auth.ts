@@ -0,0 +1,60 @@
+import { adminAuth, adminDb } from '@/lib/firebase-admin';
+import { isEmailAllowed } from '@/lib/access-store';
+import type { UserRole } from '@/lib/types';
+
+export class AuthorizationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthorizationError';
+  }
+}
+
+export interface VerifiedUser {
+  uid: string;
+  email?: string;
+  role: UserRole;
+}
+
+const ACCESS_DENIED_MESSAGE = 'Brew News is only open to approved email domains and invited users. Ask an admin for an invite.';
+
+/**
+ * Verifies a Firebase ID token sent by the client and loads the user's role
+ * from their `users/{uid}` document. Throws an AuthorizationError when the
+ * token is missing, invalid or expired, or when the account's email is
+ * neither on an allowed domain nor invited. Admins are always let in so a
+ * misconfigured allowlist cannot lock them out.
+ */
+export async function verifyUser(idToken: string | undefined): Promise<VerifiedUser> {
+  if (!adminAuth || !adminDb) {
+    throw new AuthorizationError('Authentication is not configured on the server.');
+  }
+  if (!idToken) {
+    throw new AuthorizationError('You must be signed in to do that.');
+  }
+
+  let uid: string;
+  let email: string | undefined;
+  let emailVerified: boolean | undefined;
+  try {
+    ({ uid, email, email_verified: emailVerified } = await adminAuth.verifyIdToken(idToken));
+  } catch (error) {
+    console.error("Error verifying ID token:", error);
+    throw new AuthorizationError('Your session has expired. Please sign in again.');
+  }
+
+  const userSnap = await adminDb.collection('users').doc(uid).get();
+  const role: UserRole = userSnap.data()?.role === 'admin' ? 'admin' : 'viewer';
+  if (role !== 'admin' && !(email && emailVerified && await isEmailAllowed(email))) {
+    throw new AuthorizationError(ACCESS_DENIED_MESSAGE);
+  }
+  return { uid, email, role };
+}
+
+/** Like verifyUser, but also requires the user to have the admin role. */
+export async function requireAdmin(idToken: string | undefined): Promise<VerifiedUser> {
+  const user = await verifyUser(idToken);
+  if (user.role !== 'admin') {
+    throw new AuthorizationError('You do not have permission to do that.');
+  }
+  return user;
+}
@@ -0,0 +1,56 @@
+import { createHash } from 'crypto';
+import { summarizeReleaseNote } from '@/ai/flows/summarize-release-notes-flow';
+import { adminDb as db } from '@/lib/firebase-admin';
+
+// Bump this whenever summarizeReleaseNotePrompt changes so stale summaries are regenerated.
+const SUMMARY_PROMPT_VERSION = 1;
+
+interface CachedSummary {
+  summary: string[];
+  promptVersion: number;
+  createdAt: string;
+}
+
+function summaryCacheKey(htmlContent: string): string {
+  return createHash('sha256').update(`${SUMMARY_PROMPT_VERSION}\n${htmlContent}`).digest('hex');
+}
+
+async function getCachedSummary(key: string): Promise<string[] | null> {
+  if (!db) return null;
+  try {
+    const docSnap = await db.collection('summaries').doc(key).get();
+    return docSnap.exists ? (docSnap.data() as CachedSummary).summary : null;
+  } catch (error) {
+    console.error("Error reading cached summary from Firestore:", error);
+    return null;
+  }
+}
+
+async function cacheSummary(key: string, summary: string[]): Promise<void> {
+  if (!db) return;
+  const entry: CachedSummary = { summary, promptVersion: SUMMARY_PROMPT_VERSION, createdAt: new Date().toISOString() };
+  try {
+    await db.collection('summaries').doc(key).set(entry);
+  } catch (error) {
+    console.error("Error caching summary in Firestore:", error);
+  }
+}
+
+/**
+ * Summarizes release note HTML, reusing a stored summary when the same content
+ * has already been summarized with the current prompt version.
+ */
+export async function summarizeWithCache(htmlContent: string): Promise<string[]> {
+  const key = summaryCacheKey(htmlContent);
+  const cached = await getCachedSummary(key);
+  if (cached) {
+    return cached;
+  }
+
+  const { summary, fallback } = await summarizeReleaseNote({ htmlContent });
+  // The truncated-text fallback is not cached, so the next run asks the model again.
+  if (!fallback) {
+    await cacheSummary(key, summary);
+  }
+  return summary;
+}
@@ -0,0 +1,25 @@
+/**
+ * Splits a summary point such as "[FEATURE] Adds X." into its type and text,
+ * and picks the badge variant the type is shown with.
+ */
+export function parseSummary(summary: string) {
+  const match = summary.match(/^\[(.*?)]\s*(.*)/);
+  if (match) {
+    const type = match[1].charAt(0).toUpperCase() + match[1].slice(1).toLowerCase();
+    let badgeVariant: "default" | "secondary" | "destructive" | "outline" = "outline";
+    const lowerType = type.toLowerCase();
+
+    if (lowerType === 'feature') {
+      badgeVariant = 'default';
+    } else if (lowerType === 'fixed') {
+      badgeVariant = 'secondary';
+    }
+    
+    return {
+      type: type,
+      description: match[2],
+      variant: badgeVariant,
+    };
+  }
+  return { type: null, description: summary, variant: 'outline' as const };
+}
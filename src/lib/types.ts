@@ -0,0 +1,255 @@
+import type { FeedFormat } from '@/lib/feed-parser';
+
+export type { DiscoveredFeed } from '@/lib/feed-discovery';
+
+/** A feed that announced an item, and the item's link in that feed. */
+export interface ItemSource {
+  feedUrl: string;
+  link: string;
+}
+
+export interface RssItem {
+  /** The Firestore document ID. Set when items are read or fetched, but not stored in the document. */
+  id?: string;
+  /** The item's `<guid>`, Atom `<id>` or JSON Feed `id`, if its feed gives one. */
+  guid?: string;
+  title: string;
+  link: string;
+  /** The link normalized for spotting the same release in another feed. Unset when the item had no link of its own. */
+  canonicalLink?: string;
+  description: string;
+  /** A hash of the feed's original HTML, so edits by the feed are told apart from changes to how it is sanitized. */
+  rawHash?: string;
+  pubDate: string;
+  /** `pubDate` in milliseconds, or 0 if it doesn't parse, so Firestore can order and range-query items. */
+  publishedAt?: number;
+  summary?: string[];
+  /** The URL of the feed the item was fetched from. */
+  feedUrl?: string;
+  /** Every feed that announced the item, starting with `feedUrl`. Only set once a second feed has announced it. */
+  sources?: ItemSource[];
+  /** ISO-8601 timestamps of when ingestion first and most recently saw the item. */
+  firstSeenAt?: string;
+  lastSeenAt?: string;
+  /** When ingestion last found the feed had edited the item's HTML. Unset for items never edited. */
+  updatedAt?: string;
+}
+
+/** One version of an item's content. */
+export interface ItemVersion {
+  title: string;
+  /** The item's sanitized description. */
+  html: string;
+  summary: string[];
+  /** When ingestion first saw this version. */
+  seenAt: string;
+}
+
+/** A version of an item that the feed has since replaced, stored in `itemRevisions`. */
+export interface ItemRevision extends ItemVersion {
+  id: string;
+  itemId: string;
+  replacedAt: string;
+}
+
+/** The fields of a feed that admins can edit. */
+export interface FeedSettings {
+  /** Display name; falls back to the feed's own title when empty. */
+  name: string;
+  category: string;
+  enabled: boolean;
+  pollIntervalMinutes: number;
+}
+
+export interface Feed extends FeedSettings {
+  /** URL-safe base64 of the feed URL, which is also the Firestore document ID. */
+  id: string;
+  url: string;
+  /** The `<title>` the feed gives itself. */
+  title?: string;
+  /** The website the feed belongs to. */
+  siteUrl?: string;
+  faviconUrl?: string;
+  createdBy: string;
+  createdAt: string;
+  /** Conditional GET validators from the last successful fetch. */
+  etag?: string;
+  lastModified?: string;
+  /** When the feed was last polled, whether or not that succeeded. */
+  lastFetchedAt?: string;
+  /** When the feed was last fetched without an error. */
+  lastSucceededAt?: string;
+  lastError?: string;
+}
+
+/** The result of test-fetching a feed before it is added. */
+export interface FeedPreview {
+  url: string;
+  format: FeedFormat;
+  title?: string;
+  siteUrl?: string;
+  itemCount: number;
+  /** The newest few items, with AI summaries. */
+  items: RssItem[];
+}
+
+export type UserRole = 'admin' | 'viewer';
+
+/** A signed-up user, combining their Firebase Auth account with their `users/{uid}` document. */
+export interface AppUser {
+  uid: string;
+  email?: string;
+  role: UserRole;
+  createdAt?: string;
+  lastSignInAt?: string;
+}
+
+/** One entry in the `auditLog` collection, recording a change an admin made to a user or to who may sign in. */
+export interface AuditLogEntry {
+  id: string;
+  action: 'role-changed' | 'user-removed' | 'user-invited' | 'invite-revoked' | 'domains-changed';
+  actorUid: string;
+  actorEmail?: string;
+  /** Unset for invites, which refer to an email address rather than an account. */
+  targetUid?: string;
+  targetEmail?: string;
+  fromRole?: UserRole;
+  toRole?: UserRole;
+  /** The new allowlist, for `domains-changed` entries. */
+  domains?: string[];
+  createdAt: string;
+}
+
+/** Who may sign in, stored in `settings/access`. */
+export interface AccessSettings {
+  /** Email domains whose verified addresses may sign in, e.g. "example.com". */
+  allowedDomains: string[];
+}
+
+/** How ingestion stores items, stored in `settings/ingestion`. */
+export interface IngestionSettings {
+  /** Items published longer ago than this many days are not stored. */
+  retentionDays: number;
+}
+
+/** An individual address allowed to sign in regardless of its domain, stored in `invites/{email}`. */
+export interface Invite {
+  email: string;
+  invitedBy: string;
+  createdAt: string;
+}
+
+/** A personal token for the /api/v1 endpoints. Only a hash of the secret is stored. */
+export interface ApiToken {
+  id: string;
+  name: string;
+  /** The first characters of the token, so users can tell their tokens apart. */
+  prefix: string;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+/** The rolling windows the home page groups items into. */
+export type DigestPeriod = 'this-week' | 'last-week';
+
+export interface DigestProduct {
+  product: string;
+  headlines: string[];
+  breakingChanges: string[];
+  notableFixes: string[];
+}
+
+/** An AI-written digest of one period's items, stored in `digests/{period}`. */
+export interface WeeklyDigest {
+  period: DigestPeriod;
+  /** ISO-8601 bounds of the items the digest covers. */
+  periodStart: string;
+  periodEnd: string;
+  overview: string;
+  products: DigestProduct[];
+  itemCount: number;
+  generatedAt: string;
+}
+
+/** A user's opt-in to the weekly email, stored in `emailSubscriptions/{uid}`. */
+export interface EmailSubscription {
+  email: string;
+  enabled: boolean;
+  updatedAt: string;
+  lastSentAt?: string;
+}
+
+/** One attempt to send the weekly email to one user, stored in `emailLog`. */
+export interface EmailLogEntry {
+  id: string;
+  uid: string;
+  email: string;
+  subject: string;
+  status: 'sent' | 'failed';
+  messageId?: string;
+  error?: string;
+  sentAt: string;
+}
+
+/** The parts of a chat webhook an admin can edit. */
+export interface ChatWebhookSettings {
+  name: string;
+  /** A Slack or Google Chat incoming webhook URL. */
+  url: string;
+  /** Feed IDs and categories whose new items are posted; with neither, every feed's are. */
+  feedIds: string[];
+  categories: string[];
+  /** The message for each item, with {{title}}, {{link}}, {{feed}} and {{summary}} placeholders. */
+  template: string;
+  enabled: boolean;
+}
+
+/** An incoming webhook that new items are posted to, stored in `chatWebhooks`. */
+export interface ChatWebhook extends ChatWebhookSettings {
+  id: string;
+  createdBy: string;
+  createdAt: string;
+  lastDeliveredAt?: string;
+  lastError?: string;
+}
+
+export type WebhookEvent = 'item.created' | 'item.updated' | 'feed.failed';
+
+/** The parts of an outgoing webhook an admin can edit. */
+export interface OutgoingWebhookSettings {
+  name: string;
+  url: string;
+  events: WebhookEvent[];
+  enabled: boolean;
+}
+
+/** An endpoint that receives signed event payloads, stored in `outgoingWebhooks`. Its signing secret is never sent to the client after it is created. */
+export interface OutgoingWebhook extends OutgoingWebhookSettings {
+  id: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+/** One HTTP request made for a delivery. */
+export interface WebhookDeliveryAttempt {
+  attemptedAt: string;
+  status?: number;
+  error?: string;
+  durationMs: number;
+}
+
+/** One event sent to one webhook, with every attempt to send it, stored in `webhookDeliveries`. */
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  webhookName: string;
+  event: WebhookEvent;
+  /** Shared by every delivery of the same event, so receivers can ignore duplicates. */
+  eventId: string;
+  status: 'succeeded' | 'failed';
+  attempts: WebhookDeliveryAttempt[];
+  /** The JSON body that was sent, kept for redelivery. */
+  payload: string;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,150 @@
+import type { UserRecord } from 'firebase-admin/auth';
+import { adminAuth, adminDb as db } from '@/lib/firebase-admin';
+import { addAuditEntry } from '@/lib/audit-log';
+import { isEmailAllowed } from '@/lib/access-store';
+import type { AppUser, UserRole } from '@/lib/types';
+
+/** The admin performing a change, recorded in the audit log. */
+export interface Actor {
+  uid: string;
+  email?: string;
+}
+
+/** A user acting through a token rather than a signed-in session. */
+export interface ActiveUser {
+  uid: string;
+  email?: string;
+  role: UserRole;
+}
+
+async function listAuthUsers(): Promise<UserRecord[]> {
+  if (!adminAuth) return [];
+  const users: UserRecord[] = [];
+  let pageToken: string | undefined;
+  do {
+    const page = await adminAuth.listUsers(1000, pageToken);
+    users.push(...page.users);
+    pageToken = page.pageToken;
+  } while (pageToken);
+  return users;
+}
+
+function toIsoString(time: string | undefined): string | undefined {
+  return time ? new Date(time).toISOString() : undefined;
+}
+
+/** Lists every user, including accounts whose `users/{uid}` document was never created. */
+export async function listUsers(): Promise<AppUser[]> {
+  if (!db) return [];
+  const [authUsers, snapshot] = await Promise.all([listAuthUsers(), db.collection('users').get()]);
+  const roles = new Map(snapshot.docs.map(userDoc => [userDoc.id, userDoc.data()]));
+
+  const users: AppUser[] = authUsers.map(record => ({
+    uid: record.uid,
+    email: record.email ?? roles.get(record.uid)?.email,
+    role: roles.get(record.uid)?.role === 'admin' ? 'admin' : 'viewer',
+    createdAt: toIsoString(record.metadata.creationTime),
+    lastSignInAt: toIsoString(record.metadata.lastSignInTime),
+  }));
+  // Documents left behind by accounts that only exist in Firestore, e.g. in the emulator.
+  const authUids = new Set(authUsers.map(record => record.uid));
+  snapshot.docs.filter(userDoc => !authUids.has(userDoc.id)).forEach(userDoc => {
+    users.push({ uid: userDoc.id, email: userDoc.data().email, role: userDoc.data().role === 'admin' ? 'admin' : 'viewer' });
+  });
+  return users;
+}
+
+async function getAuthRecord(uid: string): Promise<UserRecord | null> {
+  if (!adminAuth) return null;
+  return adminAuth.getUser(uid).catch(error => {
+    if ((error as { code?: string }).code === 'auth/user-not-found') return null;
+    throw error;
+  });
+}
+
+export async function getUser(uid: string): Promise<AppUser | null> {
+  if (!db || !adminAuth) return null;
+  const [record, userSnap] = await Promise.all([getAuthRecord(uid), db.collection('users').doc(uid).get()]);
+  if (!record && !userSnap.exists) return null;
+  return {
+    uid,
+    email: record?.email ?? userSnap.data()?.email,
+    role: userSnap.data()?.role === 'admin' ? 'admin' : 'viewer',
+    createdAt: toIsoString(record?.metadata.creationTime),
+    lastSignInAt: toIsoString(record?.metadata.lastSignInTime),
+  };
+}
+
+/**
+ * Looks up the owner of a feed or API token. Returns null if they have been
+ * removed or no longer pass the sign-in allowlist, so their tokens stop
+ * working along with their account.
+ */
+export async function findActiveUser(uid: string): Promise<ActiveUser | null> {
+  if (!db || !adminAuth) return null;
+  const [record, userSnap] = await Promise.all([getAuthRecord(uid), db.collection('users').doc(uid).get()]);
+  if (!record || !userSnap.exists) return null;
+  const role: UserRole = userSnap.data()?.role === 'admin' ? 'admin' : 'viewer';
+  // The allowlist is checked against the verified email on the Auth account,
+  // since users can write to their own `users/{uid}` document.
+  const email = record.emailVerified ? record.email : undefined;
+  if (role !== 'admin' && !(email && await isEmailAllowed(email))) {
+    return null;
+  }
+  return { uid, email: record.email, role };
+}
+
+/** Creates the `users/{uid}` document for a first sign-in. Existing documents, and their roles, are left alone. */
+export async function ensureUserDocument(uid: string, email: string | undefined): Promise<void> {
+  if (!db) throw new Error('Firestore is not configured.');
+  const ref = db.collection('users').doc(uid);
+  await db.runTransaction(async transaction => {
+    const userSnap = await transaction.get(ref);
+    if (!userSnap.exists) {
+      transaction.set(ref, { role: 'viewer', ...(email ? { email } : {}) });
+    }
+  });
+}
+
+export async function setUserRole(user: AppUser, role: UserRole, actor: Actor): Promise<void> {
+  if (!db) throw new Error('Firestore is not configured.');
+  const batch = db.batch();
+  batch.set(db.collection('users').doc(user.uid), { role, ...(user.email ? { email: user.email } : {}) }, { merge: true });
+  addAuditEntry(db, batch, {
+    action: 'role-changed',
+    actorUid: actor.uid,
+    actorEmail: actor.email,
+    targetUid: user.uid,
+    targetEmail: user.email,
+    fromRole: user.role,
+    toRole: role,
+  });
+  await batch.commit();
+}
+
+/** Deletes the user's Firebase Auth account and their `users/{uid}` document. */
+export async function removeUser(user: AppUser, actor: Actor): Promise<void> {
+  if (!db || !adminAuth) throw new Error('Firestore is not configured.');
+  try {
+    await adminAuth.deleteUser(user.uid);
+  } catch (error) {
+    // The account may already be gone; still clean up the document.
+    if ((error as { code?: string }).code !== 'auth/user-not-found') throw error;
+  }
+
+  const batch = db.batch();
+  batch.delete(db.collection('users').doc(user.uid));
+  batch.delete(db.collection('feedTokens').doc(user.uid));
+  batch.delete(db.collection('emailSubscriptions').doc(user.uid));
+  const apiTokens = await db.collection('apiTokens').where('uid', '==', user.uid).get();
+  apiTokens.docs.forEach(tokenDoc => batch.delete(tokenDoc.ref));
+  addAuditEntry(db, batch, {
+    action: 'user-removed',
+    actorUid: actor.uid,
+    actorEmail: actor.email,
+    targetUid: user.uid,
+    targetEmail: user.email,
+    fromRole: user.role,
+  });
+  await batch.commit();
+}
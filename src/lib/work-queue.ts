@@ -0,0 +1,138 @@
+export interface WorkQueueOptions {
+  /** Maximum number of tasks running at once. */
+  concurrency: number;
+  /** Sustained number of task starts allowed per minute. */
+  ratePerMinute: number;
+  /** Number of task starts that may happen back to back before the rate limit applies. Defaults to `concurrency`. */
+  burst?: number;
+  /** Number of times a task is retried after a retryable failure. */
+  maxRetries: number;
+  /** Delay before the first retry; doubled for each subsequent attempt. */
+  baseDelayMs: number;
+  maxDelayMs?: number;
+  isRetryable?: (error: unknown) => boolean;
+}
+
+interface Job {
+  task: () => Promise<unknown>;
+  attempt: number;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+const RETRYABLE_STATUSES = new Set(['RESOURCE_EXHAUSTED', 'UNAVAILABLE', 'INTERNAL', 'DEADLINE_EXCEEDED']);
+
+/**
+ * Detects rate limiting (429) and server-side (5xx) failures from fetch responses,
+ * Genkit errors and the Google AI client, which all report them differently.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+  const { status, code, statusCode, message } = error as Record<string, unknown>;
+  for (const value of [status, code, statusCode]) {
+    if (typeof value === 'number' && (value === 429 || (value >= 500 && value < 600))) return true;
+    if (typeof value === 'string' && RETRYABLE_STATUSES.has(value)) return true;
+  }
+  return typeof message === 'string' && /\b(429|50[0-4])\b|Too Many Requests|RESOURCE_EXHAUSTED/i.test(message);
+}
+
+/**
+ * A FIFO task queue that caps concurrency, throttles task starts with a token
+ * bucket and retries retryable failures with exponential backoff.
+ */
+export class WorkQueue {
+  private readonly options: Required<WorkQueueOptions>;
+  private readonly pending: Job[] = [];
+  private active = 0;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: WorkQueueOptions) {
+    this.options = {
+      burst: options.concurrency,
+      maxDelayMs: 60_000,
+      isRetryable: isRetryableError,
+      ...options,
+    };
+    this.tokens = this.options.burst;
+  }
+
+  run<T>(task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.pending.push({ task, attempt: 0, resolve: resolve as (value: unknown) => void, reject });
+      this.pump();
+    });
+  }
+
+  private refill() {
+    const now = Date.now();
+    const perMs = this.options.ratePerMinute / 60_000;
+    this.tokens = Math.min(this.options.burst, this.tokens + (now - this.lastRefill) * perMs);
+    this.lastRefill = now;
+  }
+
+  private pump() {
+    while (this.active < this.options.concurrency && this.pending.length > 0) {
+      this.refill();
+      if (this.tokens < 1) {
+        if (!this.timer) {
+          const waitMs = Math.ceil((1 - this.tokens) / (this.options.ratePerMinute / 60_000));
+          this.timer = setTimeout(() => {
+            this.timer = null;
+            this.pump();
+          }, waitMs);
+        }
+        return;
+      }
+      this.tokens -= 1;
+      this.start(this.pending.shift()!);
+    }
+  }
+
+  private async start(job: Job) {
+    this.active++;
+    try {
+      job.resolve(await job.task());
+    } catch (error) {
+      if (job.attempt < this.options.maxRetries && this.options.isRetryable(error)) {
+        const backoff = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** job.attempt);
+        // Jitter keeps tasks that failed together from retrying in lockstep.
+        const delay = backoff / 2 + Math.random() * (backoff / 2);
+        setTimeout(() => {
+          // Retries go to the front so they are not starved by newer work.
+          this.pending.unshift({ ...job, attempt: job.attempt + 1 });
+          this.pump();
+        }, delay);
+      } else {
+        job.reject(error);
+      }
+    } finally {
+      this.active--;
+      this.pump();
+    }
+  }
+}
+
+function readPositiveNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Unlike the other limits, a retry count of 0 is valid: it turns retries off.
+function readRetryCount(name: string, fallback: number): number {
+  const raw = process.env[name]?.trim();
+  const value = Number(raw);
+  return raw && Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Shared by every summarization in the server process, so the limits hold across
+ * all feeds being fetched at once rather than per feed.
+ */
+export const summarizeQueue = new WorkQueue({
+  concurrency: readPositiveNumber('SUMMARIZE_CONCURRENCY', 4),
+  ratePerMinute: readPositiveNumber('SUMMARIZE_RATE_PER_MINUTE', 60),
+  maxRetries: readRetryCount('SUMMARIZE_MAX_RETRIES', 4),
+  baseDelayMs: 1_000,
+});
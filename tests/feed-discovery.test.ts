@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { discoverFeeds, isHtmlDocument } from '@/lib/feed-discovery';
+
+describe('isHtmlDocument', () => {
+  it('treats a feed served as text/html as a feed', () => {
+    expect(isHtmlDocument('<?xml version="1.0"?>\n<rss version="2.0"><channel></channel></rss>', 'text/html; charset=utf-8')).toBe(false);
+    expect(isHtmlDocument('\uFEFF<?xml version="1.0"?><!-- generated --><feed xmlns="http://www.w3.org/2005/Atom"></feed>', 'text/html')).toBe(false);
+    expect(isHtmlDocument('<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"></rdf:RDF>', 'text/html')).toBe(false);
+    expect(isHtmlDocument('{"version": "https://jsonfeed.org/version/1.1", "items": []}', 'text/html')).toBe(false);
+  });
+
+  it('recognizes web pages by their Content-Type or their markup', () => {
+    expect(isHtmlDocument('<p>Release notes</p>', 'text/html')).toBe(true);
+    expect(isHtmlDocument('<!-- page -->\n<!DOCTYPE html><html><head></head></html>', 'application/xml')).toBe(true);
+    expect(isHtmlDocument('<html lang="en"></html>', null)).toBe(true);
+  });
+});
+
+describe('discoverFeeds', () => {
+  it('finds RSS, Atom and JSON Feed links and resolves them against the page', () => {
+    const html = `<!DOCTYPE html><html><head>
+      <link rel="stylesheet" href="/style.css">
+      <link rel="alternate" type="application/rss+xml" title="Release notes &amp; fixes" href="/releases/feed.xml">
+      <link rel="alternate" type="application/atom+xml" href="atom.xml">
+      <link rel="alternate" type="application/feed+json" title=" " href="https://feeds.example.com/notes.json">
+      <link rel="alternate" hreflang="de" href="/de/">
+      <link rel="alternate" type="application/rss+xml" href="/releases/feed.xml">
+    </head></html>`;
+
+    expect(discoverFeeds(html, 'https://example.com/docs/changelog')).toEqual([
+      { url: 'https://example.com/releases/feed.xml', type: 'application/rss+xml', title: 'Release notes & fixes' },
+      { url: 'https://example.com/docs/atom.xml', type: 'application/atom+xml', title: undefined },
+      { url: 'https://feeds.example.com/notes.json', type: 'application/feed+json', title: undefined },
+    ]);
+  });
+
+  it('resolves relative links against <base href>', () => {
+    const html = `<head><base href="https://cdn.example.com/site/"><link type='application/atom+xml' rel='Alternate' href='feed.atom'></head>`;
+    expect(discoverFeeds(html, 'https://example.com/')).toEqual([
+      { url: 'https://cdn.example.com/site/feed.atom', type: 'application/atom+xml', title: undefined },
+    ]);
+  });
+
+  it('finds nothing on a page without feed links', () => {
+    expect(discoverFeeds('<html><head><title>Docs</title></head></html>', 'https://example.com/')).toEqual([]);
+  });
+});
@@ -0,0 +1,197 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { FeedParseError, parseFeed } from '@/lib/feed-parser';
+
+// The fixtures are trimmed copies of real vendor release-note feeds, kept to
+// the constructs the parser has to get right.
+function fixture(name: string): string {
+  return readFileSync(path.join(__dirname, 'fixtures', 'feeds', name), 'utf8');
+}
+
+describe('parseFeed', () => {
+  describe('RSS 2.0', () => {
+    const feed = parseFeed(fixture('rss2-release-notes.xml'), 'application/rss+xml', 'https://docs.docker.com/desktop/release-notes/index.xml');
+
+    it('reads the channel metadata and resolves the relative image URL', () => {
+      expect(feed).toMatchObject({
+        format: 'rss2',
+        title: 'Docker Desktop release notes',
+        link: 'https://docs.docker.com/desktop/release-notes/',
+        description: 'Release notes for Docker Desktop.',
+        language: 'en-us',
+        icon: 'https://docs.docker.com/favicons/docs.png',
+      });
+      expect(feed.items).toHaveLength(2);
+    });
+
+    it('prefers content:encoded from CDATA and keeps the description separately', () => {
+      const [item] = feed.items;
+      expect(item).toMatchObject({
+        id: 'docker-desktop-4.34.0',
+        link: 'https://docs.docker.com/desktop/release-notes/#4340',
+        contentBase: 'https://docs.docker.com/desktop/release-notes/#4340',
+        description: '<p>Host networking is now available for <strong>all</strong> users.</p>',
+        published: '2024-09-05T10:00:00.000Z',
+        authors: ['Docker Inc.'],
+        categories: ['Desktop', 'Networking'],
+      });
+      expect(item.content).toBe('<h2>New</h2><ul><li>Host networking support on Docker Desktop.</li><li>See the <a href="/engine/network/drivers/host/">host driver docs</a>.</li></ul>');
+    });
+
+    it('decodes HTML entities that XML does not define and keeps unknown ones as text', () => {
+      const [first, second] = feed.items;
+      expect(first.title).toBe('Docker Desktop 4.34.0 – Host networking');
+      expect(second.content).toBe('Fixes a crash on start up & adds © notices. Unknown &bogus; entity stays.');
+    });
+
+    it('uses a permalink guid as the ID', () => {
+      expect(feed.items[1].id).toBe('https://docs.docker.com/desktop/release-notes/#4331');
+      expect(feed.items[1].published).toBe('2024-07-24T09:30:00.000Z');
+    });
+  });
+
+  describe('RSS 1.0 (RDF)', () => {
+    const feed = parseFeed(fixture('rss1-rdf.xml'), 'application/rdf+xml', 'https://www.postgresql.org/news.rss');
+
+    it('reads the channel and Dublin Core metadata', () => {
+      expect(feed).toMatchObject({
+        format: 'rss1',
+        title: 'PostgreSQL news',
+        link: 'https://www.postgresql.org/',
+        language: 'en',
+      });
+      expect(feed.items[0]).toMatchObject({
+        id: 'https://www.postgresql.org/about/news/postgresql-17-released-2936/',
+        title: 'PostgreSQL 17 Released!',
+        published: '2024-09-26T12:00:00.000Z',
+        authors: ['PostgreSQL Global Development Group'],
+        categories: ['Releases'],
+      });
+    });
+
+    it('falls back to rdf:about for the link and reads CDATA descriptions', () => {
+      expect(feed.items[1]).toMatchObject({
+        link: 'https://www.postgresql.org/about/news/postgresql-163-released-2910/',
+        content: '<p>This release fixes <em>over 55 bugs</em>.</p>',
+      });
+    });
+  });
+
+  describe('Atom with type="html"', () => {
+    const feed = parseFeed(fixture('atom-html.xml'), 'application/atom+xml', 'https://github.com/nodejs/node/releases.atom');
+
+    it('reads the feed metadata and picks the alternate HTML link', () => {
+      expect(feed).toMatchObject({
+        format: 'atom',
+        title: 'Release notes from node',
+        link: 'https://github.com/nodejs/node/releases',
+        language: 'en-US',
+        updated: '2024-10-03T15:02:11.000Z',
+      });
+    });
+
+    it('unescapes HTML content once', () => {
+      expect(feed.items[0]).toMatchObject({
+        id: 'tag:github.com,2008:Repository/27193779/v22.9.0',
+        link: 'https://github.com/nodejs/node/releases/tag/v22.9.0',
+        content: '<h3>Notable Changes</h3>\n<p>New <code>--max-old-space-size-percentage</code> flag &amp; more.</p>',
+        updated: '2024-09-17T18:14:40.000Z',
+        authors: ['RafaelGSS'],
+        categories: ['release'],
+      });
+    });
+
+    it('strips markup from HTML titles, skips enclosure links and falls back to the summary', () => {
+      expect(feed.items[1]).toMatchObject({
+        title: 'Version 20.17.0 (LTS)',
+        link: 'https://github.com/nodejs/node/releases/tag/v20.17.0',
+        content: '<p>Adds <b>require(esm)</b> behind a flag.</p>',
+        description: '<p>Adds <b>require(esm)</b> behind a flag.</p>',
+        published: '2024-08-21T10:00:00.000Z',
+      });
+    });
+  });
+
+  describe('Atom with type="xhtml" and xml:base', () => {
+    const feed = parseFeed(fixture('atom-xhtml-xml-base.xml'), 'application/atom+xml', 'https://cloud.google.com/feeds/gcp-release-notes.xml');
+
+    it('resolves feed links against the feed-level xml:base', () => {
+      expect(feed.link).toBe('https://cloud.google.com/release-notes/');
+      expect(feed.icon).toBe('https://cloud.google.com/favicon.ico');
+    });
+
+    it('treats a link without rel as the alternate link', () => {
+      expect(feed.items[0].link).toBe('https://cloud.google.com/release-notes/#October_01_2024');
+    });
+
+    it('serializes the XHTML inside the wrapping div and scopes xml:base to the content', () => {
+      const [item] = feed.items;
+      expect(item.contentBase).toBe('https://cloud.google.com/run/docs/');
+      expect(item.content).toContain('<h3>Cloud Run</h3>');
+      expect(item.content).toContain('<a href="configuring/services/gpu">attach GPUs</a>');
+      expect(item.content).toContain('<img src="images/gpu.png" alt="GPU">');
+      expect(item.content).not.toContain('<div');
+    });
+
+    it('writes void elements without an end tag', () => {
+      const [item] = feed.items;
+      expect(item.content).toContain('to services.<br>Available in us-central1.');
+      expect(item.content).not.toContain('</br>');
+      expect(item.content).not.toContain('</img>');
+    });
+
+    it('escapes plain-text constructs as HTML', () => {
+      expect(feed.items[1]).toMatchObject({
+        link: 'https://cloud.google.com/release-notes#September_30_2024',
+        content: 'Plain text with &lt;angle brackets&gt;.',
+        contentBase: 'https://cloud.google.com/release-notes/',
+      });
+    });
+  });
+
+  describe('JSON Feed', () => {
+    const body = fixture('json-feed.json');
+    const feed = parseFeed(body, 'application/feed+json', 'https://deno.com/feed.json');
+
+    it('reads the feed metadata and resolves relative URLs against the feed URL', () => {
+      expect(feed).toMatchObject({
+        format: 'json',
+        title: 'Deno releases',
+        link: 'https://deno.com/blog',
+        description: 'Release announcements for Deno.',
+        language: 'en',
+        icon: 'https://deno.com/favicon.ico',
+      });
+      expect(feed.items[0]).toMatchObject({
+        id: 'https://deno.com/blog/v2.0',
+        link: 'https://deno.com/blog/v2.0',
+        content: '<p>Deno 2 is <a href="/blog/v2.0#compat">backwards compatible</a> with Node.</p>',
+        description: 'Deno 2 is here.',
+        published: '2024-10-09T14:00:00.000Z',
+        authors: ['Ryan Dahl'],
+        categories: ['release'],
+      });
+    });
+
+    it('stringifies numeric IDs and escapes content_text', () => {
+      expect(feed.items[1]).toMatchObject({
+        id: '194',
+        content: 'The last 1.x release &lt;3',
+        updated: '2024-08-22T09:00:00.000Z',
+      });
+    });
+
+    it('sniffs JSON when the server labels it as something else', () => {
+      expect(parseFeed(body, 'text/plain').format).toBe('json');
+    });
+  });
+
+  it('sniffs XML served as JSON', () => {
+    expect(parseFeed(fixture('atom-html.xml'), 'application/json').format).toBe('atom');
+  });
+
+  it('rejects malformed XML', () => {
+    expect(() => parseFeed('<rss version="2.0"><channel><item></channel></rss>', 'application/rss+xml')).toThrow(FeedParseError);
+  });
+});
@@ -0,0 +1,108 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { assertFails, assertSucceeds, initializeTestEnvironment, type RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
+
+// Runs against the Firestore emulator, so it is skipped unless one is running.
+// `npm run test:rules` starts the emulator and runs this file.
+describe.skipIf(!process.env.FIRESTORE_EMULATOR_HOST)('firestore.rules', () => {
+  let testEnv: RulesTestEnvironment;
+
+  beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+      projectId: 'demo-brew-news',
+      firestore: { rules: readFileSync(path.join(__dirname, '..', 'firestore.rules'), 'utf8') },
+    });
+  });
+
+  afterAll(async () => {
+    await testEnv?.cleanup();
+  });
+
+  beforeEach(async () => {
+    await testEnv.clearFirestore();
+    await testEnv.withSecurityRulesDisabled(async context => {
+      const db = context.firestore();
+      await setDoc(doc(db, 'users/admin'), { email: 'admin@example.com', role: 'admin' });
+      await setDoc(doc(db, 'users/viewer'), { email: 'viewer@example.com', role: 'viewer' });
+      await setDoc(doc(db, 'invites/viewer@example.com'), { invitedBy: 'admin' });
+      await setDoc(doc(db, 'settings/access'), { allowedDomains: ['example.org'] });
+      await setDoc(doc(db, 'feeds/docker'), { url: 'https://docs.docker.com/desktop/release-notes/index.xml' });
+      await setDoc(doc(db, 'feedItems/item'), { title: 'Docker Desktop 4.43.0', link: 'https://docs.docker.com/desktop/release-notes/#4430' });
+    });
+  });
+
+  const admin = () => testEnv.authenticatedContext('admin', { email: 'admin@example.com', email_verified: true }).firestore();
+  const viewer = () => testEnv.authenticatedContext('viewer', { email: 'viewer@example.com', email_verified: true }).firestore();
+
+  describe('feeds', () => {
+    it('lets admins change the feed list', async () => {
+      await assertSucceeds(setDoc(doc(admin(), 'feeds/postgres'), { url: 'https://www.postgresql.org/news.rss' }));
+    });
+
+    it('does not let viewers change the feed list', async () => {
+      await assertFails(setDoc(doc(viewer(), 'feeds/postgres'), { url: 'https://www.postgresql.org/news.rss' }));
+      await assertFails(updateDoc(doc(viewer(), 'feeds/docker'), { name: 'Docker' }));
+    });
+  });
+
+  describe('feedItems', () => {
+    it('lets allowed users read items', async () => {
+      await assertSucceeds(getDoc(doc(viewer(), 'feedItems/item')));
+    });
+
+    it('does not let anyone write items, admins included', async () => {
+      await assertFails(setDoc(doc(admin(), 'feedItems/new'), { title: 'Injected' }));
+      await assertFails(updateDoc(doc(admin(), 'feedItems/item'), { title: 'Edited' }));
+      await assertFails(updateDoc(doc(viewer(), 'feedItems/item'), { title: 'Edited' }));
+    });
+  });
+
+  describe('users', () => {
+    it('lets users update their own document while keeping their role', async () => {
+      await assertSucceeds(updateDoc(doc(viewer(), 'users/viewer'), { displayName: 'Viewer' }));
+    });
+
+    it('does not let users raise their own role', async () => {
+      await assertFails(updateDoc(doc(viewer(), 'users/viewer'), { role: 'admin' }));
+    });
+
+    it('does not let users change their own email', async () => {
+      await assertFails(updateDoc(doc(viewer(), 'users/viewer'), { email: 'someone@example.org' }));
+    });
+
+    it('does not let a new user create their document with another email', async () => {
+      const db = testEnv.authenticatedContext('newcomer', { email: 'newcomer@example.org', email_verified: true }).firestore();
+      await assertFails(setDoc(doc(db, 'users/newcomer'), { email: 'admin@example.com', role: 'viewer' }));
+    });
+
+    it('does not let a new user create themselves as an admin', async () => {
+      const db = testEnv.authenticatedContext('newcomer', { email: 'newcomer@example.org', email_verified: true }).firestore();
+      await assertFails(setDoc(doc(db, 'users/newcomer'), { email: 'newcomer@example.org', role: 'admin' }));
+      await assertSucceeds(setDoc(doc(db, 'users/newcomer'), { email: 'newcomer@example.org', role: 'viewer' }));
+    });
+  });
+
+  describe('access', () => {
+    it('lets users on an allowed domain read without an invite', async () => {
+      const db = testEnv.authenticatedContext('colleague', { email: 'colleague@example.org', email_verified: true }).firestore();
+      await assertSucceeds(getDoc(doc(db, 'feeds/docker')));
+    });
+
+    it('does not let users who are neither invited nor on an allowed domain read', async () => {
+      const db = testEnv.authenticatedContext('stranger', { email: 'stranger@elsewhere.com', email_verified: true }).firestore();
+      await assertFails(getDoc(doc(db, 'feeds/docker')));
+      await assertFails(getDoc(doc(db, 'feedItems/item')));
+    });
+
+    it('does not let users read before their email is verified', async () => {
+      const db = testEnv.authenticatedContext('unverified', { email: 'unverified@example.org', email_verified: false }).firestore();
+      await assertFails(getDoc(doc(db, 'feeds/docker')));
+    });
+
+    it('does not let signed-out visitors read', async () => {
+      await assertFails(getDoc(doc(testEnv.unauthenticatedContext().firestore(), 'feedItems/item')));
+    });
+  });
+});
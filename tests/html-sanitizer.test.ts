@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { isSafeLink, sanitizeFeedHtml } from '@/lib/html-sanitizer';
+
+describe('sanitizeFeedHtml', () => {
+  it('removes scripts, styles and embeds along with their text', () => {
+    const html = sanitizeFeedHtml('<p>Fixed</p><script>alert(1)</script><style>p{}</style><iframe src="https://evil.example"></iframe>');
+    expect(html).toBe('<p>Fixed</p>');
+  });
+
+  it('removes event handlers and other attributes that are not allowlisted', () => {
+    const html = sanitizeFeedHtml('<p onclick="alert(1)" style="color:red" class="note">Fixed</p><img src="https://example.com/a.png" onerror="alert(1)" alt="A">');
+    expect(html).toContain('<p>Fixed</p>');
+    expect(html).not.toMatch(/onclick|onerror|style=|class=/);
+  });
+
+  it('drops javascript: and data: URLs', () => {
+    const html = sanitizeFeedHtml('<a href="javascript:alert(1)">Run</a><img src="data:image/png;base64,AAAA" alt="inline">');
+    expect(html).not.toContain('javascript:');
+    expect(html).not.toContain('data:');
+    expect(html).toContain('>Run</a>');
+  });
+
+  it('removes tracking pixels and images without a source', () => {
+    const html = sanitizeFeedHtml('<p>Hi</p><img src="https://t.example/p.gif" width="1" height="1"><img alt="empty"><img src="https://example.com/shot.png" width="640">');
+    expect(html).not.toContain('t.example');
+    expect(html).not.toContain('empty');
+    expect(html).toContain('src="https://example.com/shot.png"');
+  });
+
+  it('opens links in a new tab without referrer or opener access', () => {
+    expect(sanitizeFeedHtml('<a href="https://example.com" target="_self" rel="opener">Docs</a>'))
+      .toBe('<a href="https://example.com" target="_blank" rel="noopener noreferrer nofollow ugc">Docs</a>');
+  });
+
+  it('resolves relative links and image sources against the base URL', () => {
+    const html = sanitizeFeedHtml('<a href="../guide/">Guide</a><a href="#fixes">Fixes</a><img src="img/new.png" alt="New">', 'https://example.com/docs/releases/4.2');
+    expect(html).toContain('href="https://example.com/docs/guide/"');
+    expect(html).toContain('href="#fixes"');
+    expect(html).toContain('src="https://example.com/docs/releases/img/new.png"');
+  });
+
+  it('does not turn protocol-relative URLs into links to another site', () => {
+    expect(sanitizeFeedHtml('<a href="//evil.example/x">x</a>')).not.toContain('evil.example');
+  });
+
+  it('gives the same result when run twice', () => {
+    const once = sanitizeFeedHtml('<p>One<br>two <a href="/a">link</a></p>', 'https://example.com/');
+    expect(sanitizeFeedHtml(once, 'https://example.com/')).toBe(once);
+  });
+});
+
+describe('isSafeLink', () => {
+  it('accepts only absolute http(s) URLs', () => {
+    expect(isSafeLink('https://example.com/notes')).toBe(true);
+    expect(isSafeLink('http://example.com')).toBe(true);
+    expect(isSafeLink('javascript:alert(1)')).toBe(false);
+    expect(isSafeLink('/relative')).toBe(false);
+    expect(isSafeLink('mailto:team@example.com')).toBe(false);
+  });
+});
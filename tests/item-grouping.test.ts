@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { groupItems, itemsInRange, windowBounds } from '@/lib/item-grouping';
+import type { RssItem } from '@/lib/types';
+
+function item(title: string, pubDate: string, feedUrl?: string): RssItem {
+  return { title, link: `https://example.com/${encodeURIComponent(title)}`, description: '', pubDate, feedUrl };
+}
+
+describe('groupItems by feed', () => {
+  const feedNames = { 'https://a.example/feed': 'Alpha', 'https://z.example/feed': 'Zulu' };
+
+  it('puts items from every unknown feed into one "Other feeds" group, listed last', () => {
+    const groups = groupItems([
+      item('Zulu 2.0', '2024-10-03T00:00:00Z', 'https://z.example/feed'),
+      item('Removed 1', '2024-10-02T00:00:00Z', 'https://removed-one.example/feed'),
+      item('Alpha 1.1', '2024-10-02T00:00:00Z', 'https://a.example/feed'),
+      item('Removed 2', '2024-10-01T00:00:00Z', 'https://removed-two.example/feed'),
+      item('No feed', '2024-09-30T00:00:00Z'),
+    ], 'feed', feedNames);
+
+    expect(groups.map(({ key, label }) => ({ key, label }))).toEqual([
+      { key: 'https://a.example/feed', label: 'Alpha' },
+      { key: 'https://z.example/feed', label: 'Zulu' },
+      { key: 'other-feeds', label: 'Other feeds' },
+    ]);
+    expect(groups[2].items.map(({ title }) => title)).toEqual(['Removed 1', 'Removed 2', 'No feed']);
+  });
+});
+
+describe('windowBounds', () => {
+  it('covers the last N days from the start of the first day until now', () => {
+    const now = new Date(2024, 9, 15, 13, 30);
+    expect(windowBounds({ days: 14 }, now)).toEqual({ from: new Date(2024, 9, 1), to: now });
+  });
+
+  it('covers whole calendar days for a picked range', () => {
+    const { from, to } = windowBounds({ from: new Date(2024, 9, 1, 18), to: new Date(2024, 9, 3, 6) });
+    expect(from).toEqual(new Date(2024, 9, 1));
+    expect(to).toEqual(new Date(2024, 9, 3, 23, 59, 59, 999));
+  });
+});
+
+describe('itemsInRange', () => {
+  it('keeps items inside the range, inclusive, newest first', () => {
+    const items = [
+      item('Start', '2024-10-01T00:00:00Z'),
+      item('Before', '2024-09-30T23:59:59Z'),
+      item('End', '2024-10-07T00:00:00Z'),
+      item('Middle', '2024-10-03T12:00:00Z'),
+      item('Undated', 'not a date'),
+    ];
+    const titles = itemsInRange(items, new Date('2024-10-01T00:00:00Z'), new Date('2024-10-07T00:00:00Z')).map(({ title }) => title);
+    expect(titles).toEqual(['End', 'Middle', 'Start']);
+  });
+});
+
+describe('groupItems by date', () => {
+  const items = [
+    item('Oct 14', new Date(2024, 9, 14, 12).toISOString()),
+    item('Oct 8', new Date(2024, 9, 8, 12).toISOString()),
+    item('Oct 7', new Date(2024, 9, 7, 12).toISOString()),
+    item('Sep 30', new Date(2024, 8, 30, 12).toISOString()),
+  ];
+
+  it('groups by ISO week, Monday to Sunday', () => {
+    const groups = groupItems(items, 'week', {});
+    expect(groups.map(({ key, label, items }) => ({ key, label, titles: items.map(({ title }) => title) }))).toEqual([
+      { key: '2024-W42', label: 'Week 42, 2024 · Oct 14 – Oct 20', titles: ['Oct 14'] },
+      { key: '2024-W41', label: 'Week 41, 2024 · Oct 7 – Oct 13', titles: ['Oct 8', 'Oct 7'] },
+      { key: '2024-W40', label: 'Week 40, 2024 · Sep 30 – Oct 6', titles: ['Sep 30'] },
+    ]);
+  });
+
+  it('groups by calendar month', () => {
+    const groups = groupItems(items, 'month', {});
+    expect(groups.map(({ key, label, items }) => ({ key, label, count: items.length }))).toEqual([
+      { key: '2024-10', label: 'October 2024', count: 3 },
+      { key: '2024-09', label: 'September 2024', count: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { buildOpml, OpmlParseError, parseOpml } from '@/lib/opml';
+
+describe('parseOpml', () => {
+  it('reads feeds and takes their category from the folders they are nested in', () => {
+    const feeds = parseOpml(`<?xml version="1.0"?>
+      <opml version="2.0">
+        <head><title>Subscriptions</title></head>
+        <body>
+          <outline text="Cloud">
+            <outline text="Databases">
+              <outline type="rss" text="PostgreSQL" xmlUrl="https://www.postgresql.org/news.rss" htmlUrl="https://www.postgresql.org/"/>
+            </outline>
+          </outline>
+          <outline type="rss" title="Docker" text="ignored" xmlUrl=" https://docs.docker.com/feed.xml "/>
+          <outline type="rss" text="Node.js" xmlUrl="https://nodejs.org/en/feed/blog.xml" category="/Runtimes/JavaScript,/Other"/>
+        </body>
+      </opml>`);
+
+    expect(feeds).toEqual([
+      { url: 'https://www.postgresql.org/news.rss', title: 'PostgreSQL', siteUrl: 'https://www.postgresql.org/', category: 'Cloud / Databases' },
+      { url: 'https://docs.docker.com/feed.xml', title: 'Docker', siteUrl: undefined, category: undefined },
+      { url: 'https://nodejs.org/en/feed/blog.xml', title: 'Node.js', siteUrl: undefined, category: 'Runtimes / JavaScript' },
+    ]);
+  });
+
+  it('rejects documents that are not OPML or are malformed', () => {
+    expect(() => parseOpml('<rss version="2.0"></rss>')).toThrow(OpmlParseError);
+    expect(() => parseOpml('<opml><body><outline></body></opml>')).toThrow(OpmlParseError);
+    expect(() => parseOpml('')).toThrow(OpmlParseError);
+  });
+});
+
+describe('buildOpml', () => {
+  it('writes one folder per category and can be read back', () => {
+    const feeds = [
+      { url: 'https://docs.docker.com/feed.xml', title: 'Docker & Compose', siteUrl: 'https://docs.docker.com/' },
+      { url: 'https://www.postgresql.org/news.rss', title: 'PostgreSQL', category: 'Databases' },
+    ];
+    const opml = buildOpml(feeds);
+
+    expect(opml).toContain('<outline text="Databases" title="Databases">');
+    expect(opml).toContain('text="Docker &amp; Compose"');
+    expect(parseOpml(opml)).toEqual([
+      { url: 'https://www.postgresql.org/news.rss', title: 'PostgreSQL', siteUrl: undefined, category: 'Databases' },
+      { url: 'https://docs.docker.com/feed.xml', title: 'Docker & Compose', siteUrl: 'https://docs.docker.com/', category: undefined },
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+import { createHmac } from 'crypto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Feed } from '@/lib/types';
+
+const webhooks = vi.hoisted(() => [
+  { id: 'ops', data: { name: 'Ops', url: 'https://hooks.example.com/ops', events: ['item.created'], enabled: true, secret: 'whsec_ops' } },
+]);
+const deliveries = vi.hoisted(() => [] as unknown[]);
+
+vi.mock('@/lib/firebase-admin', () => ({
+  adminAuth: null,
+  withoutUndefined: (value: object) => JSON.parse(JSON.stringify(value)),
+  adminDb: {
+    collection: (name: string) => name === 'outgoingWebhooks'
+      ? { where: () => ({ get: async () => ({ docs: webhooks.map(({ id, data }) => ({ id, data: () => data })) }) }) }
+      : { doc: () => ({ id: 'delivery-1', set: async (delivery: unknown) => { deliveries.push(delivery); } }) },
+  },
+}));
+
+const { dispatchWebhookEvents, itemEvent } = await import('@/lib/outgoing-webhooks');
+
+const feed: Feed = {
+  id: 'docker',
+  url: 'https://docs.docker.com/feed.xml',
+  name: 'Docker',
+  category: 'Containers',
+  enabled: true,
+  pollIntervalMinutes: 60,
+  createdBy: 'admin',
+  createdAt: '2025-01-01T00:00:00Z',
+};
+const item = { id: 'item-1', title: 'Docker Desktop 4.43.0', link: 'https://docs.docker.com/desktop/release-notes/#4430', description: '<p>Fixes</p>', pubDate: '2025-07-01T00:00:00Z' };
+
+describe('dispatchWebhookEvents', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    deliveries.length = 0;
+  });
+
+  it('signs each request with the HMAC-SHA256 of the timestamp and body', async () => {
+    const fetchMock = vi.fn(async () => new Response(null, { status: 204 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const results = await dispatchWebhookEvents([itemEvent('item.created', item, feed)]);
+
+    expect(results).toEqual([{ webhookId: 'ops', name: 'Ops', succeeded: 1, failed: 0 }]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    const body = init.body as string;
+    const expected = createHmac('sha256', 'whsec_ops').update(`${headers['X-BrewNews-Timestamp']}.${body}`).digest('hex');
+
+    expect(url).toBe('https://hooks.example.com/ops');
+    expect(headers['X-BrewNews-Signature']).toBe(`sha256=${expected}`);
+    expect(headers['X-BrewNews-Timestamp']).toMatch(/^\d+$/);
+    expect(headers).toMatchObject({ 'X-BrewNews-Event': 'item.created', 'X-BrewNews-Delivery': 'delivery-1' });
+    expect(JSON.parse(body)).toMatchObject({ event: 'item.created', data: { item: { title: 'Docker Desktop 4.43.0' }, feed: { name: 'Docker' } } });
+    expect(deliveries).toMatchObject([{ webhookId: 'ops', status: 'succeeded', payload: body }]);
+  });
+
+  it('only sends the events a webhook subscribes to', async () => {
+    const fetchMock = vi.fn(async () => new Response(null, { status: 204 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const results = await dispatchWebhookEvents([itemEvent('item.updated', item, feed)]);
+
+    expect(results).toEqual([{ webhookId: 'ops', name: 'Ops', succeeded: 0, failed: 0 }]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { isRetryableError, WorkQueue } from '@/lib/work-queue';
+
+function queue(options: { concurrency?: number; maxRetries?: number } = {}) {
+  return new WorkQueue({ concurrency: 2, ratePerMinute: 60_000, burst: 10, maxRetries: 2, baseDelayMs: 1, ...options });
+}
+
+const rateLimited = () => Object.assign(new Error('Too Many Requests'), { status: 429 });
+
+describe('WorkQueue', () => {
+  it('never runs more tasks at once than its concurrency', async () => {
+    const work = queue({ concurrency: 2 });
+    let running = 0;
+    let peak = 0;
+    const task = async (value: number) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      return value;
+    };
+
+    await expect(Promise.all([1, 2, 3, 4, 5].map(value => work.run(() => task(value))))).resolves.toEqual([1, 2, 3, 4, 5]);
+    expect(peak).toBe(2);
+  });
+
+  it('retries retryable failures until the task succeeds', async () => {
+    let calls = 0;
+    const result = await queue({ maxRetries: 2 }).run(async () => {
+      if (++calls < 3) throw rateLimited();
+      return 'summary';
+    });
+    expect(result).toBe('summary');
+    expect(calls).toBe(3);
+  });
+
+  it('gives up after the last retry', async () => {
+    let calls = 0;
+    await expect(queue({ maxRetries: 2 }).run(async () => {
+      calls++;
+      throw rateLimited();
+    })).rejects.toThrow('Too Many Requests');
+    expect(calls).toBe(3);
+  });
+
+  it('does not retry when retries are turned off', async () => {
+    let calls = 0;
+    await expect(queue({ maxRetries: 0 }).run(async () => {
+      calls++;
+      throw rateLimited();
+    })).rejects.toThrow();
+    expect(calls).toBe(1);
+  });
+
+  it('does not retry failures that are not retryable', async () => {
+    let calls = 0;
+    await expect(queue().run(async () => {
+      calls++;
+      throw new Error('Invalid API key');
+    })).rejects.toThrow('Invalid API key');
+    expect(calls).toBe(1);
+  });
+});
+
+describe('isRetryableError', () => {
+  it('retries rate limits and server errors however they are reported', () => {
+    expect(isRetryableError({ status: 429 })).toBe(true);
+    expect(isRetryableError({ statusCode: 503 })).toBe(true);
+    expect(isRetryableError({ status: 'RESOURCE_EXHAUSTED' })).toBe(true);
+    expect(isRetryableError({ code: 'UNAVAILABLE' })).toBe(true);
+    expect(isRetryableError(new Error('[GoogleGenerativeAI Error]: [500 Internal Server Error]'))).toBe(true);
+  });
+
+  it('does not retry client errors', () => {
+    expect(isRetryableError({ status: 400 })).toBe(false);
+    expect(isRetryableError({ status: 'INVALID_ARGUMENT' })).toBe(false);
+    expect(isRetryableError(new Error('Invalid API key'))).toBe(false);
+    expect(isRetryableError('429')).toBe(false);
+    expect(isRetryableError(null)).toBe(false);
+  });
+});